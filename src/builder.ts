@@ -0,0 +1,192 @@
+import { DAY_ALIASES, MONTH_ALIASES } from './fields.js';
+import { analyzeCron, CronParseError } from './parse.js';
+import type { ExtendedCronExpression, StandardCronExpression } from './types.js';
+
+/** Day of week name accepted by the builder (`SUN`-`SAT`) */
+export type CronDayName = (typeof DAY_ALIASES)[number];
+
+/** Month name accepted by the builder (`JAN`-`DEC`) */
+export type CronMonthName = (typeof MONTH_ALIASES)[number];
+
+/** Options for `cron()` */
+export interface CronBuilderOptions<Seconds extends boolean = boolean> {
+  /**
+   * Build a 6-field expression starting with seconds.
+   * @default false
+   */
+  seconds?: Seconds;
+}
+
+/** Expression type returned by `build()` */
+export type CronBuilderResult<Seconds extends boolean> = Seconds extends true
+  ? ExtendedCronExpression
+  : StandardCronExpression;
+
+/** A time of day for `at()`; omitted smaller units are 0 */
+export interface CronTime<Seconds extends boolean = boolean> {
+  /** Only 0 unless the builder was created with `cron({ seconds: true })` */
+  second?: [Seconds] extends [false] ? 0 : number;
+  minute?: number;
+  hour?: number;
+}
+
+/** Fields the builder writes, in expression order */
+type BuilderField = 'second' | 'minute' | 'hour' | 'dayOfMonth' | 'month' | 'dayOfWeek';
+
+type BuilderFields = Readonly<Record<BuilderField, string>>;
+
+const WILDCARD_FIELDS: BuilderFields = {
+  second: '*',
+  minute: '*',
+  hour: '*',
+  dayOfMonth: '*',
+  month: '*',
+  dayOfWeek: '*',
+};
+
+/**
+ * Writes a list of values, rejecting an empty one
+ */
+function formatList(method: string, values: readonly (number | string)[]): string {
+  if (values.length === 0) {
+    throw new TypeError(`${method}() needs at least one value`);
+  }
+  return values.map(String).join(',');
+}
+
+/**
+ * Immutable builder for cron expressions. Every method returns a new builder,
+ * so partial schedules can be shared. Fields that are never set are `*`.
+ *
+ * Values are checked by `build()`, which throws the same errors as `parseCron`.
+ */
+export class CronBuilder<Seconds extends boolean = false> {
+  private readonly seconds: boolean;
+  private fields: BuilderFields = WILDCARD_FIELDS;
+
+  constructor(options: CronBuilderOptions<Seconds> = {}) {
+    this.seconds = options.seconds ?? false;
+  }
+
+  /**
+   * Returns a copy with some fields replaced
+   */
+  private with(fields: Partial<BuilderFields>): CronBuilder<Seconds> {
+    const builder = new CronBuilder<Seconds>({ seconds: this.seconds as Seconds });
+    builder.fields = { ...this.fields, ...fields };
+    return builder;
+  }
+
+  /**
+   * Rejects seconds in a 5-field expression
+   */
+  private requireSeconds(method: string): void {
+    if (!this.seconds) {
+      throw new TypeError(`${method}() needs a 6-field expression: use cron({ seconds: true })`);
+    }
+  }
+
+  /**
+   * Run at a time of day. Units smaller than the largest one given default to 0,
+   * so `at({ hour: 9 })` runs at 09:00 rather than every minute of that hour.
+   */
+  at(time: CronTime<Seconds>): CronBuilder<Seconds> {
+    if (time.second !== undefined && time.second !== 0) this.requireSeconds('at');
+
+    const fields: Partial<Record<BuilderField, string>> = {};
+    const units = ['hour', 'minute', 'second'] as const;
+    let set = false;
+    for (const unit of units) {
+      const value = time[unit];
+      if (value !== undefined) fields[unit] = String(value);
+      else if (set) fields[unit] = '0';
+      set ||= value !== undefined;
+    }
+    return this.with(fields);
+  }
+
+  /** Run every `n` seconds, starting at second 0 */
+  everyNSeconds(n: number): CronBuilder<Seconds> {
+    this.requireSeconds('everyNSeconds');
+    return this.with({ second: `*/${n}` });
+  }
+
+  /** Run every `n` minutes, starting at minute 0 */
+  everyNMinutes(n: number): CronBuilder<Seconds> {
+    return this.with({ minute: `*/${n}` });
+  }
+
+  /** Run every `n` hours, starting at midnight */
+  everyNHours(n: number): CronBuilder<Seconds> {
+    return this.with({ hour: `*/${n}` });
+  }
+
+  /** Run every `n` days of the month, starting on the 1st */
+  everyNDays(n: number): CronBuilder<Seconds> {
+    return this.with({ dayOfMonth: `*/${n}` });
+  }
+
+  /** Run every `n` months, starting in January */
+  everyNMonths(n: number): CronBuilder<Seconds> {
+    return this.with({ month: `*/${n}` });
+  }
+
+  /** Run on these days of the month (1-31) */
+  onDaysOfMonth(days: readonly number[]): CronBuilder<Seconds> {
+    return this.with({ dayOfMonth: formatList('onDaysOfMonth', days) });
+  }
+
+  /** Run on these days of the week, as names or numbers (0-7, where 0 and 7 are Sunday) */
+  onWeekdays(days: readonly (CronDayName | number)[]): CronBuilder<Seconds> {
+    return this.with({ dayOfWeek: formatList('onWeekdays', days) });
+  }
+
+  /** Run in these months, as names or numbers (1-12) */
+  inMonths(months: readonly (CronMonthName | number)[]): CronBuilder<Seconds> {
+    return this.with({ month: formatList('inMonths', months) });
+  }
+
+  /**
+   * Returns the expression without checking it
+   */
+  toString(): string {
+    const { second, minute, hour, dayOfMonth, month, dayOfWeek } = this.fields;
+    const fields = [minute, hour, dayOfMonth, month, dayOfWeek];
+    return (this.seconds ? [second, ...fields] : fields).join(' ');
+  }
+
+  /**
+   * Check the expression and return it.
+   *
+   * @returns An expression that passes `isCron` with the builder's `seconds` setting,
+   * typed as a `StandardCronExpression` or, with seconds, an `ExtendedCronExpression`
+   * @throws {CronParseError} If a value is out of range or not a whole number
+   */
+  build(): CronBuilderResult<Seconds> {
+    const expr = this.toString();
+    const { errors } = analyzeCron(expr, { seconds: this.seconds });
+    if (errors.length > 0) {
+      throw new CronParseError(errors);
+    }
+    return expr as CronBuilderResult<Seconds>;
+  }
+}
+
+/**
+ * Start building a cron expression.
+ *
+ * @example
+ * cron().at({ minute: 30, hour: 9 }).onWeekdays(['MON', 'FRI']).everyNMonths(2).build();
+ * // '30 9 * *\/2 MON,FRI'
+ *
+ * cron({ seconds: true }).everyNSeconds(10).build();
+ * // '*\/10 * * * * *'
+ *
+ * @param options - Whether to build a 6-field expression with seconds
+ * @returns A builder whose fields are all `*`
+ */
+export function cron<Seconds extends boolean = false>(
+  options: CronBuilderOptions<Seconds> = {}
+): CronBuilder<Seconds> {
+  return new CronBuilder(options);
+}
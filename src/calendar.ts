@@ -0,0 +1,225 @@
+import { EVENTBRIDGE_YEAR_FIELD, getFieldSpecs, YEAR_FIELD, type FieldSpec } from './fields.js';
+import type { CronAst, CronCalendarItem, CronDialect, CronFieldName, CronFieldNode, CronItem } from './types.js';
+
+/** Expanded values of every field, ready for matching */
+export interface CompiledSchedule {
+  second: number[];
+  minute: number[];
+  hour: number[];
+  dayOfMonth: number[];
+  month: number[];
+  /** 0-6, with 7 folded into 0 (Sunday) */
+  dayOfWeek: number[];
+  /** Quartz `L`, `W` and `#` items, matched in addition to the plain values */
+  dayOfMonthRules: CronCalendarItem[];
+  dayOfWeekRules: CronCalendarItem[];
+  /** Day of month does not start with `*` or `?` */
+  dayOfMonthRestricted: boolean;
+  /** Day of week does not start with `*` or `?` */
+  dayOfWeekRestricted: boolean;
+  /** Allowed years (Quartz), or `null` for any year */
+  year: number[] | null;
+  /** Another schedule whose day fields must match too (intersections of two expressions) */
+  alsoDays?: CompiledSchedule;
+}
+
+/**
+ * 28 consecutive years cover every pairing of leap year and weekday of January 1st,
+ * which is all that decides the days an expression matches in a year
+ */
+export const REFERENCE_YEARS = Array.from({ length: 28 }, (_, index) => 2000 + index);
+
+
+/**
+ * Returns the number of days in a month (month is 1-12)
+ */
+export function daysInMonth(year: number, month: number): number {
+  const date = new Date(Date.UTC(2000, month, 0));
+  date.setUTCFullYear(year, month, 0);
+  return date.getUTCDate();
+}
+
+/**
+ * Returns the day of week (0 = Sunday) of a calendar date
+ */
+export function dayOfWeek(year: number, month: number, day: number): number {
+  const date = new Date(Date.UTC(2000, 0, 1));
+  date.setUTCFullYear(year, month - 1, day);
+  return date.getUTCDay();
+}
+
+/**
+ * Checks whether an item is a Quartz `L`, `W` or `#` item
+ */
+function isCalendarItem(item: CronItem): item is CronCalendarItem {
+  return (
+    item.type === 'lastDay' ||
+    item.type === 'nearestWeekday' ||
+    item.type === 'lastWeekday' ||
+    item.type === 'lastDayOfWeek' ||
+    item.type === 'nthDayOfWeek'
+  );
+}
+
+/**
+ * Returns the weekday (Monday-Friday) nearest to a day without leaving the month,
+ * or `undefined` when the month is shorter than `target` (Quartz `W`)
+ */
+function nearestWeekday(year: number, month: number, target: number): number | undefined {
+  const last = daysInMonth(year, month);
+  if (target > last) return undefined;
+
+  const weekday = dayOfWeek(year, month, target);
+  if (weekday === 6) return target === 1 ? 3 : target - 1;
+  if (weekday === 0) return target === last ? target - 2 : target + 1;
+  return target;
+}
+
+/**
+ * Checks whether a calendar date matches a Quartz `L`, `W` or `#` item
+ */
+function matchesCalendarItem(item: CronCalendarItem, year: number, month: number, day: number): boolean {
+  switch (item.type) {
+    case 'lastDay':
+      return day === daysInMonth(year, month) - item.offset;
+    case 'nearestWeekday':
+      return day === nearestWeekday(year, month, item.day);
+    case 'lastWeekday':
+      return day === nearestWeekday(year, month, daysInMonth(year, month));
+    case 'lastDayOfWeek':
+      return dayOfWeek(year, month, day) === item.day && day + 7 > daysInMonth(year, month);
+    case 'nthDayOfWeek':
+      return dayOfWeek(year, month, day) === item.day && Math.ceil(day / 7) === item.nth;
+  }
+}
+
+/**
+ * Expands a single item into the values it matches. Ranges that end before
+ * they start (`wrapRanges`) continue from `min` after `wrapAt`.
+ */
+export function expandItem(item: CronItem, min: number, max: number, wrapAt: number): number[] {
+  // Calendar items depend on the month and are matched separately
+  if (isCalendarItem(item)) {
+    return [];
+  }
+
+  let from = min;
+  let to = max;
+  let step = 1;
+
+  const base = item.type === 'step' ? item.base : item;
+  if (base.type === 'value') {
+    from = base.value;
+    to = item.type === 'step' ? max : base.value;
+  } else if (base.type === 'range') {
+    from = base.from;
+    to = base.to;
+  }
+  if (item.type === 'step') {
+    step = item.step;
+  }
+
+  // Steps count along the wrapped sequence, so 22-2/2 is 22, 0 and 2
+  const count = from <= to ? to - from + 1 : wrapAt - from + 1 + to - min + 1;
+  const values: number[] = [];
+  for (let index = 0; index < count; index += step) {
+    const value = from + index;
+    values.push(value > wrapAt ? value - (wrapAt - min + 1) : value);
+  }
+  return values;
+}
+
+/**
+ * Expands a field node into a sorted list of unique values
+ */
+export function expandField(node: CronFieldNode, min: number, max: number, wrapAt = max): number[] {
+  const values = new Set<number>();
+  for (const item of node.items) {
+    for (const value of expandItem(item, min, max, wrapAt)) {
+      values.add(value);
+    }
+  }
+  return [...values].sort((a, b) => a - b);
+}
+
+/**
+ * Returns the values a field's items expand over, and the value after which
+ * wrapped ranges start over. Sunday is both 0 and 7 in the standard day of week
+ * field, so the week wraps after Saturday; Quartz days of the week, renumbered
+ * to 0-6 by the parser, end on Saturday.
+ */
+export function expansionBounds(spec: FieldSpec, dialect: CronDialect): { min: number; max: number; wrapAt: number } {
+  if (spec.name !== 'dayOfWeek') {
+    return { min: spec.min, max: spec.max, wrapAt: spec.max };
+  }
+  const quartz = dialect === 'quartz' || dialect === 'eventbridge';
+  return { min: 0, max: quartz ? 6 : 7, wrapAt: 6 };
+}
+
+/**
+ * Expands a parsed expression into per-field value lists
+ */
+export function compileSchedule(ast: CronAst): CompiledSchedule {
+  const specs = getFieldSpecs(ast.seconds);
+  const nodes = new Map<CronFieldName, CronFieldNode>();
+  ast.fields.forEach((node) => nodes.set(node.name, node));
+
+  const expand = (name: CronFieldName): number[] => {
+    const node = nodes.get(name);
+    const spec = specs.find((candidate) => candidate.name === name);
+    if (!node || !spec) return [0];
+    const { min, max, wrapAt } = expansionBounds(spec, ast.dialect);
+    return expandField(node, min, max, wrapAt);
+  };
+  const isRestricted = (name: CronFieldName): boolean => {
+    const text = nodes.get(name)?.text ?? '*';
+    return !text.startsWith('*') && !text.startsWith('?');
+  };
+  const rules = (name: CronFieldName): CronCalendarItem[] => nodes.get(name)?.items.filter(isCalendarItem) ?? [];
+  const yearNode = nodes.get('year');
+  const yearSpec = ast.dialect === 'eventbridge' ? EVENTBRIDGE_YEAR_FIELD : YEAR_FIELD;
+
+  return {
+    second: expand('second'),
+    minute: expand('minute'),
+    hour: expand('hour'),
+    dayOfMonth: expand('dayOfMonth'),
+    month: expand('month'),
+    dayOfWeek: [...new Set(expand('dayOfWeek').map((value) => value % 7))].sort((a, b) => a - b),
+    dayOfMonthRules: rules('dayOfMonth'),
+    dayOfWeekRules: rules('dayOfWeek'),
+    dayOfMonthRestricted: isRestricted('dayOfMonth'),
+    dayOfWeekRestricted: isRestricted('dayOfWeek'),
+    // Only a bare `*` allows any year; `*/4` is every fourth year from 1970
+    year: yearNode && yearNode.text !== '*' ? expandField(yearNode, yearSpec.min, yearSpec.max) : null,
+  };
+}
+
+/**
+ * Checks the day of month and day of week fields for a calendar date.
+ * When both are restricted, either one matching is enough (Vixie cron).
+ */
+export function matchesDay(schedule: CompiledSchedule, year: number, month: number, day: number): boolean {
+  const matchesRule = (rule: CronCalendarItem) => matchesCalendarItem(rule, year, month, day);
+  const weekday = dayOfWeek(year, month, day);
+  const domMatch = schedule.dayOfMonth.includes(day) || schedule.dayOfMonthRules.some(matchesRule);
+  const dowMatch = schedule.dayOfWeek.includes(weekday) || schedule.dayOfWeekRules.some(matchesRule);
+
+  const matches = schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted
+    ? domMatch || dowMatch
+    : domMatch && dowMatch;
+  return matches && (!schedule.alsoDays || matchesDay(schedule.alsoDays, year, month, day));
+}
+
+/**
+ * Checks whether any day of a year matches the month and day fields
+ */
+export function firesInYear(schedule: CompiledSchedule, year: number): boolean {
+  return schedule.month.some((month) => {
+    const last = daysInMonth(year, month);
+    for (let day = 1; day <= last; day++) {
+      if (matchesDay(schedule, year, month, day)) return true;
+    }
+    return false;
+  });
+}
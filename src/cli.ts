@@ -0,0 +1,413 @@
+import { readFileSync } from 'node:fs';
+import { parseCrontab, type CrontabError } from './crontab.js';
+import { describeCron } from './describe.js';
+import { hasHashItems } from './jenkins.js';
+import type { CronLocale } from './locale.js';
+import { deLocale } from './locales/de.js';
+import { enLocale } from './locales/en.js';
+import { jaLocale } from './locales/ja.js';
+import { koLocale } from './locales/ko.js';
+import { parseCron } from './parse.js';
+import { upcomingRuns, type CronOccurrence, type CronScheduleOptions } from './schedule.js';
+import { getTimeZone } from './timezone.js';
+import type { CronDialect, CronValidationError } from './types.js';
+import { validateCron } from './validate.js';
+
+/** Where the CLI writes output and reads files, replaceable in tests */
+export interface CliIo {
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+  /** Reads a file as UTF-8; `-` is standard input */
+  readFile: (path: string) => string;
+}
+
+// Exit statuses
+const EXIT_OK = 0;
+const EXIT_INVALID = 1;
+const EXIT_USAGE = 2;
+
+/** Command-line flags, after parsing */
+interface CliFlags {
+  json: boolean;
+  help: boolean;
+  seconds: boolean;
+  alias: boolean;
+  macros: boolean;
+  strict: boolean;
+  wrapRanges: boolean;
+  system: boolean;
+  hour12: boolean;
+  verbose: boolean;
+  dialect?: string;
+  hashSeed?: string;
+  locale?: string;
+  count?: string;
+  from?: string;
+  timeZone?: string;
+}
+
+/** Names of the flags that are switched on or off */
+type BooleanFlag = { [K in keyof CliFlags]-?: CliFlags[K] extends boolean ? K : never }[keyof CliFlags];
+
+/** Names of the flags that take a value */
+type ValueFlag = Exclude<keyof CliFlags, BooleanFlag>;
+
+/** Thrown for bad command-line usage; reported with exit status 2 */
+class UsageError extends Error {}
+
+const USAGE = `Usage: is-cron <command> [options]
+
+Commands:
+  validate <expr>    Exit with status 1 if the expression is not valid
+  explain <expr>     Describe the expression in words
+  next <expr>        List the next run times
+  lint <file>        Check every line of a crontab file (- for standard input)
+
+Options:
+  --seconds          Expect 6 fields, starting with seconds
+  --no-alias         Reject month and day names
+  --no-macros        Reject macros such as @daily
+  --dialect <name>   standard, quartz, jenkins or eventbridge
+  --hash-seed <id>   Seed for Jenkins H (usually the job name)
+  --strict           Reject schedules that can never fire
+  --wrap-ranges      Allow ranges such as 22-2 that wrap around
+  --locale <code>    en, de, ja or ko, for names and descriptions
+  --json             Write machine-readable JSON to standard output
+  -h, --help         Show this help
+
+explain:
+  --hour12           Use a 12-hour clock
+  --verbose          Spell out implicit parts of the schedule
+
+next:
+  -n, --count <n>    Number of run times to list (default: 5)
+  --from <date>      Start after this ISO 8601 date (default: now)
+  --tz <zone>        IANA time zone (default: local)
+
+lint:
+  --system           Expect a user column, as in /etc/crontab and /etc/cron.d
+
+Exit status is 0 on success, 1 for invalid input and 2 for usage errors.
+`;
+
+const DIALECTS: readonly CronDialect[] = ['standard', 'quartz', 'jenkins', 'eventbridge'];
+
+const LOCALES: Readonly<Record<string, CronLocale>> = {
+  en: enLocale,
+  de: deLocale,
+  ja: jaLocale,
+  ko: koLocale,
+};
+
+// Flags that take the next argument as their value
+const VALUE_FLAGS: Readonly<Record<string, ValueFlag>> = {
+  '--dialect': 'dialect',
+  '--hash-seed': 'hashSeed',
+  '--locale': 'locale',
+  '--count': 'count',
+  '-n': 'count',
+  '--from': 'from',
+  '--tz': 'timeZone',
+  '--time-zone': 'timeZone',
+};
+
+// Flags that are switched on, or off with `--no-`
+const BOOLEAN_FLAGS: Readonly<Record<string, BooleanFlag>> = {
+  '--json': 'json',
+  '--help': 'help',
+  '-h': 'help',
+  '--seconds': 'seconds',
+  '--alias': 'alias',
+  '--macros': 'macros',
+  '--strict': 'strict',
+  '--wrap-ranges': 'wrapRanges',
+  '--system': 'system',
+  '--hour12': 'hour12',
+  '--verbose': 'verbose',
+};
+
+const defaultIo: CliIo = {
+  stdout: (text) => process.stdout.write(text),
+  stderr: (text) => process.stderr.write(text),
+  readFile: (path) => readFileSync(path === '-' ? 0 : path, 'utf8'),
+};
+
+/**
+ * Splits arguments into positionals and flags
+ */
+function parseArgs(args: string[]): { positionals: string[]; flags: CliFlags } {
+  const flags: CliFlags = {
+    json: false,
+    help: false,
+    seconds: false,
+    alias: true,
+    macros: true,
+    strict: false,
+    wrapRanges: false,
+    system: false,
+    hour12: false,
+    verbose: false,
+  };
+  const positionals: string[] = [];
+
+  for (let index = 0; index < args.length; index++) {
+    const arg = args[index] as string;
+    if (arg === '--') {
+      positionals.push(...args.slice(index + 1));
+      break;
+    }
+
+    const equals = arg.startsWith('--') ? arg.indexOf('=') : -1;
+    const name = equals === -1 ? arg : arg.slice(0, equals);
+    const valueFlag = VALUE_FLAGS[name];
+    if (valueFlag) {
+      const value = equals === -1 ? args[++index] : arg.slice(equals + 1);
+      if (value === undefined) throw new UsageError(`Option ${name} needs a value`);
+      flags[valueFlag] = value;
+      continue;
+    }
+
+    const negated = name.startsWith('--no-');
+    const booleanFlag = BOOLEAN_FLAGS[negated ? `--${name.slice(5)}` : name];
+    if (booleanFlag && equals === -1) {
+      flags[booleanFlag] = !negated;
+      continue;
+    }
+
+    // A lone `-` names standard input
+    if (arg.startsWith('-') && arg !== '-') throw new UsageError(`Unknown option ${arg}`);
+    positionals.push(arg);
+  }
+  return { positionals, flags };
+}
+
+/**
+ * Builds library options from the flags
+ */
+function scheduleOptions(flags: CliFlags): CronScheduleOptions {
+  const options: CronScheduleOptions = {
+    seconds: flags.seconds,
+    alias: flags.alias,
+    macros: flags.macros,
+    strict: flags.strict,
+    wrapRanges: flags.wrapRanges,
+  };
+
+  if (flags.dialect !== undefined) {
+    const dialect = DIALECTS.find((name) => name === flags.dialect);
+    if (!dialect) throw new UsageError(`Unknown dialect "${flags.dialect}" (expected ${DIALECTS.join(', ')})`);
+    options.dialect = dialect;
+  }
+  if (flags.locale !== undefined) {
+    const locale = LOCALES[flags.locale];
+    if (!locale) throw new UsageError(`Unknown locale "${flags.locale}" (expected ${Object.keys(LOCALES).join(', ')})`);
+    options.locale = locale;
+  }
+  if (flags.hashSeed !== undefined) options.hashSeed = flags.hashSeed;
+  if (flags.timeZone !== undefined) options.timeZone = flags.timeZone;
+  return options;
+}
+
+/**
+ * Checks that a time zone is known to the runtime
+ */
+function checkTimeZone(name: string): void {
+  try {
+    getTimeZone(name);
+  } catch (error) {
+    if (error instanceof RangeError) throw new UsageError(error.message);
+    throw error;
+  }
+}
+
+/**
+ * Checks that an expression using Jenkins `H` has a seed to resolve it with
+ */
+function checkHashSeed(expr: string, options: CronScheduleOptions): void {
+  if (options.hashSeed === undefined && hasHashItems(parseCron(expr, options))) {
+    throw new UsageError('Expressions with "H" need --hash-seed');
+  }
+}
+
+/**
+ * Formats a number with leading zeros
+ */
+function pad(value: number, length = 2): string {
+  return String(value).padStart(length, '0');
+}
+
+/**
+ * Formats an occurrence as ISO 8601 in its own time zone, e.g. `2024-01-01T09:00:00+09:00`
+ */
+function formatOccurrence({ local, utcOffset }: CronOccurrence): string {
+  const offset = Math.abs(utcOffset);
+  const zone = `${utcOffset < 0 ? '-' : '+'}${pad(Math.floor(offset / 60))}:${pad(offset % 60)}`;
+  const date = `${pad(local.year, 4)}-${pad(local.month)}-${pad(local.day)}`;
+  return `${date}T${pad(local.hour)}:${pad(local.minute)}:${pad(local.second)}${zone}`;
+}
+
+/**
+ * Writes an error with the offending part of the expression underlined
+ */
+function formatError(expr: string, error: CronValidationError): string {
+  const underline = ' '.repeat(error.start) + '^'.repeat(Math.max(1, error.end - error.start));
+  return `error: ${error.message} [${error.code}]\n  ${expr}\n  ${underline}\n`;
+}
+
+/**
+ * Reads the single expression argument of a command
+ */
+function expressionArg(command: string, positionals: string[]): string {
+  if (positionals.length !== 1) {
+    throw new UsageError(`${command} expects one expression (quote it: is-cron ${command} "0 9 * * *")`);
+  }
+  return positionals[0] as string;
+}
+
+/**
+ * Reports validation errors, returning `true` when there were none
+ */
+function reportValidation(expr: string, options: CronScheduleOptions, flags: CliFlags, io: CliIo): boolean {
+  const result = validateCron(expr, options);
+  if (!result.valid) {
+    if (flags.json) {
+      io.stdout(`${JSON.stringify({ expression: expr, ...result }, null, 2)}\n`);
+    } else {
+      result.errors.forEach((error) => io.stderr(formatError(expr, error)));
+    }
+  }
+  return result.valid;
+}
+
+/**
+ * `validate <expr>`
+ */
+function runValidate(positionals: string[], flags: CliFlags, io: CliIo): number {
+  const expr = expressionArg('validate', positionals);
+  const options = scheduleOptions(flags);
+  if (!reportValidation(expr, options, flags, io)) return EXIT_INVALID;
+
+  io.stdout(flags.json ? `${JSON.stringify({ expression: expr, valid: true, errors: [] }, null, 2)}\n` : 'valid\n');
+  return EXIT_OK;
+}
+
+/**
+ * `explain <expr>`
+ */
+function runExplain(positionals: string[], flags: CliFlags, io: CliIo): number {
+  const expr = expressionArg('explain', positionals);
+  const options = scheduleOptions(flags);
+  if (!reportValidation(expr, options, flags, io)) return EXIT_INVALID;
+  checkHashSeed(expr, options);
+
+  const description = describeCron(expr, { ...options, hour12: flags.hour12, verbose: flags.verbose });
+  io.stdout(flags.json ? `${JSON.stringify({ expression: expr, description }, null, 2)}\n` : `${description}\n`);
+  return EXIT_OK;
+}
+
+/**
+ * `next <expr>`
+ */
+function runNext(positionals: string[], flags: CliFlags, io: CliIo): number {
+  const expr = expressionArg('next', positionals);
+  const options = scheduleOptions(flags);
+  const count = flags.count === undefined ? 5 : Number(flags.count);
+  if (!Number.isInteger(count) || count < 1) {
+    throw new UsageError(`--count must be a positive whole number, got "${flags.count}"`);
+  }
+  const from = flags.from === undefined ? new Date() : new Date(flags.from);
+  if (Number.isNaN(from.getTime())) throw new UsageError(`--from is not a valid date: "${flags.from}"`);
+  if (options.timeZone !== undefined) checkTimeZone(options.timeZone);
+  if (!reportValidation(expr, options, flags, io)) return EXIT_INVALID;
+  checkHashSeed(expr, options);
+
+  const runs: CronOccurrence[] = [];
+  for (const occurrence of upcomingRuns(expr, from, options)) {
+    runs.push(occurrence);
+    if (runs.length === count) break;
+  }
+
+  if (flags.json) {
+    const json = runs.map((run) => ({
+      date: run.date.toISOString(),
+      local: formatOccurrence(run),
+      timeZone: run.timeZone,
+    }));
+    io.stdout(`${JSON.stringify({ expression: expr, runs: json }, null, 2)}\n`);
+  } else {
+    runs.forEach((run) => io.stdout(`${formatOccurrence(run)}\n`));
+  }
+  return EXIT_OK;
+}
+
+/**
+ * `lint <file>`
+ */
+function runLint(positionals: string[], flags: CliFlags, io: CliIo): number {
+  if (positionals.length !== 1) throw new UsageError('lint expects one file (- for standard input)');
+  const path = positionals[0] as string;
+  const options = { ...scheduleOptions(flags), system: flags.system };
+
+  let text: string;
+  try {
+    text = io.readFile(path);
+  } catch (error) {
+    io.stderr(`is-cron: cannot read ${path}: ${error instanceof Error ? error.message : String(error)}\n`);
+    return EXIT_USAGE;
+  }
+
+  const { valid, errors } = parseCrontab(text, options);
+  if (flags.json) {
+    io.stdout(`${JSON.stringify({ file: path, valid, errors }, null, 2)}\n`);
+  } else {
+    const name = path === '-' ? '<stdin>' : path;
+    errors.forEach((error: CrontabError) => {
+      io.stderr(`${name}:${error.line}:${error.column}: error: ${error.message} [${error.code}]\n`);
+    });
+    if (!valid) io.stderr(`${errors.length} problem${errors.length === 1 ? '' : 's'}\n`);
+  }
+  return valid ? EXIT_OK : EXIT_INVALID;
+}
+
+/**
+ * Run the `is-cron` command line.
+ *
+ * @example
+ * runCli(['validate', '0 9 * * MON-FRI']); // 0, prints "valid"
+ * runCli(['next', '0 9 * * *', '-n', '3', '--json']); // 0, prints the next 3 runs as JSON
+ *
+ * @param args - Arguments after the program name
+ * @param io - Output streams and file access (default: the process's)
+ * @returns The exit status: 0 on success, 1 for invalid input, 2 for usage errors
+ */
+export function runCli(args: string[], io: CliIo = defaultIo): number {
+  try {
+    const { positionals, flags } = parseArgs(args);
+    const [command, ...rest] = positionals;
+    if (flags.help || command === 'help') {
+      io.stdout(USAGE);
+      return EXIT_OK;
+    }
+
+    switch (command) {
+      case 'validate':
+        return runValidate(rest, flags, io);
+      case 'explain':
+        return runExplain(rest, flags, io);
+      case 'next':
+        return runNext(rest, flags, io);
+      case 'lint':
+        return runLint(rest, flags, io);
+      case undefined:
+        throw new UsageError('Missing command');
+      default:
+        throw new UsageError(`Unknown command "${command}"`);
+    }
+  } catch (error) {
+    if (error instanceof UsageError) {
+      io.stderr(`is-cron: ${error.message}\nRun "is-cron --help" for usage.\n`);
+      return EXIT_USAGE;
+    }
+    throw error;
+  }
+}
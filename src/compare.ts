@@ -0,0 +1,194 @@
+import { daysInMonth, firesInYear, matchesDay, REFERENCE_YEARS, type CompiledSchedule } from './calendar.js';
+import { EVENTBRIDGE_YEAR_FIELD, YEAR_FIELD } from './fields.js';
+import { parseCron } from './parse.js';
+import { createContext, findNext, scheduleOf, type CronOccurrence, type CronScheduleOptions } from './schedule.js';
+import type { CronAst, IsCronOptions } from './types.js';
+
+/** Options for `cronIntersects` */
+export interface CronIntersectOptions extends CronScheduleOptions {
+  /**
+   * Stop looking after this instant.
+   * @default one year after `from`
+   */
+  until?: Date;
+}
+
+// Length of each rate unit in minutes, to compare `rate(60 minutes)` with `rate(1 hour)`
+const RATE_MINUTES = { minute: 1, hour: 60, day: 24 * 60 } as const;
+
+/**
+ * Reads a 6-field standard expression as having seconds unless `seconds` is given,
+ * so that 5- and 6-field forms can be compared
+ */
+function optionsFor(expr: string, options: IsCronOptions): IsCronOptions {
+  const { dialect = 'standard', seconds } = options;
+  if (seconds !== undefined || dialect !== 'standard') return options;
+  return { ...options, seconds: expr.trim().split(/\s+/).length === 6 };
+}
+
+/**
+ * Drops a year field that lists every year of its range, such as Quartz `1970-2099`,
+ * since it fires in the same years as no year field
+ */
+function withoutFullYear(schedule: CompiledSchedule | null, options: IsCronOptions): CompiledSchedule | null {
+  if (!schedule?.year) return schedule;
+  const { min, max } = options.dialect === 'eventbridge' ? EVENTBRIDGE_YEAR_FIELD : YEAR_FIELD;
+  return schedule.year.length === max - min + 1 ? { ...schedule, year: null } : schedule;
+}
+
+/**
+ * Compares `@reboot` and `rate(...)` expressions, which have no run times
+ */
+function sameTrigger(a: CronAst, b: CronAst): boolean {
+  if (a.rate && b.rate) {
+    return a.rate.value * RATE_MINUTES[a.rate.unit] === b.rate.value * RATE_MINUTES[b.rate.unit];
+  }
+  return a.trigger === b.trigger && a.trigger !== 'schedule';
+}
+
+/**
+ * Checks whether a compiled schedule fires on a calendar date
+ */
+function firesOn(schedule: CompiledSchedule, year: number, month: number, day: number): boolean {
+  return (
+    (schedule.year === null || schedule.year.includes(year)) &&
+    schedule.month.includes(month) &&
+    matchesDay(schedule, year, month, day)
+  );
+}
+
+/**
+ * Checks whether two schedules fire on the same days of the given years
+ */
+function sameDays(a: CompiledSchedule, b: CompiledSchedule, years: number[]): boolean {
+  for (const year of years) {
+    for (let month = 1; month <= 12; month++) {
+      for (let day = 1; day <= daysInMonth(year, month); day++) {
+        if (firesOn(a, year, month, day) !== firesOn(b, year, month, day)) return false;
+      }
+    }
+  }
+  return true;
+}
+
+/**
+ * Checks whether a schedule fires on any day at all
+ */
+function firesEver(schedule: CompiledSchedule): boolean {
+  return (schedule.year ?? REFERENCE_YEARS).some((year) => firesInYear(schedule, year));
+}
+
+/**
+ * Checks whether two value lists hold the same values
+ */
+function sameValues(a: number[], b: number[]): boolean {
+  return a.length === b.length && a.every((value, index) => value === b[index]);
+}
+
+/**
+ * Returns the values present in both lists
+ */
+function intersect(a: number[], b: number[]): number[] {
+  return a.filter((value) => b.includes(value));
+}
+
+/**
+ * Check whether two cron expressions fire at exactly the same times.
+ *
+ * Expressions are compared by the wall-clock times they match, not by text, so
+ * aliases, steps, lists and leading zeros do not matter. Unless `seconds` is given,
+ * a 6-field expression is read as having seconds, and a 5-field one fires at second 0.
+ * Two `rate(...)` expressions are equal when their intervals are, and `@reboot`
+ * only equals itself.
+ *
+ * @example
+ * cronEquals('*\/15 * * * *', '0,15,30,45 * * * *'); // true
+ * cronEquals('0 0 * * MON', '0 0 0 * * 1');          // true
+ *
+ * @param a - The first cron expression
+ * @param b - The second cron expression
+ * @param options - Validation options, used for both expressions
+ * @returns `true` if both expressions match the same set of times
+ * @throws {CronParseError} If either expression is not valid
+ * @throws {TypeError} If an expression uses Jenkins `H` without `hashSeed`
+ */
+export function cronEquals(a: string, b: string, options: IsCronOptions = {}): boolean {
+  const optionsA = optionsFor(a, options);
+  const optionsB = optionsFor(b, options);
+  const scheduleA = withoutFullYear(scheduleOf(a, optionsA), optionsA);
+  const scheduleB = withoutFullYear(scheduleOf(b, optionsB), optionsB);
+  if (!scheduleA || !scheduleB) {
+    return sameTrigger(parseCron(a, optionsA), parseCron(b, optionsB));
+  }
+
+  // The days must agree in every year either expression allows
+  let days: boolean;
+  if (scheduleA.year && scheduleB.year) {
+    days = sameDays(scheduleA, scheduleB, [...new Set([...scheduleA.year, ...scheduleB.year])]);
+  } else if (!scheduleA.year && !scheduleB.year) {
+    days = sameDays(scheduleA, scheduleB, REFERENCE_YEARS);
+  } else {
+    // One stops after its last year while the other repeats forever
+    days = !firesEver(scheduleA) && !firesEver(scheduleB);
+  }
+  if (!days) return false;
+  if (!firesEver(scheduleA)) return true;
+
+  return (
+    sameValues(scheduleA.hour, scheduleB.hour) &&
+    sameValues(scheduleA.minute, scheduleB.minute) &&
+    sameValues(scheduleA.second, scheduleB.second)
+  );
+}
+
+/**
+ * Find the first time two cron expressions both fire.
+ *
+ * Like `nextRun`, times are evaluated in `options.timeZone` and the search
+ * starts strictly after `from`. 5- and 6-field expressions can be mixed as in `cronEquals`.
+ *
+ * @example
+ * cronIntersects('0 9 * * MON-FRI', '0 9 13 * *', new Date(2024, 0, 1));
+ * // { date: 2024-02-13T09:00 local, ... } - the first weekday that is the 13th
+ *
+ * @param a - The first cron expression
+ * @param b - The second cron expression
+ * @param from - Start searching after this instant (default: now)
+ * @param options - Validation, time zone, DST and horizon options
+ * @returns The first shared occurrence up to `options.until`, or `null` if there is none
+ * (always for `@reboot` and `rate(...)`)
+ * @throws {CronParseError} If either expression is not valid
+ * @throws {TypeError} If an expression uses Jenkins `H` without `hashSeed`
+ * @throws {RangeError} If the time zone is not known to the runtime
+ */
+export function cronIntersects(
+  a: string,
+  b: string,
+  from: Date = new Date(),
+  options: CronIntersectOptions = {}
+): CronOccurrence | null {
+  const scheduleA = scheduleOf(a, optionsFor(a, options));
+  const scheduleB = scheduleOf(b, optionsFor(b, options));
+  if (!scheduleA || !scheduleB) return null;
+
+  let year = scheduleA.year ?? scheduleB.year;
+  if (scheduleA.year && scheduleB.year) year = intersect(scheduleA.year, scheduleB.year);
+
+  const both: CompiledSchedule = {
+    ...scheduleA,
+    second: intersect(scheduleA.second, scheduleB.second),
+    minute: intersect(scheduleA.minute, scheduleB.minute),
+    hour: intersect(scheduleA.hour, scheduleB.hour),
+    month: intersect(scheduleA.month, scheduleB.month),
+    year,
+    alsoDays: scheduleB,
+  };
+  const values = [both.second, both.minute, both.hour, both.month, both.year ?? REFERENCE_YEARS];
+  if (values.some((list) => list.length === 0)) return null;
+
+  const until = options.until ?? new Date(from.getTime());
+  if (!options.until) until.setFullYear(until.getFullYear() + 1);
+
+  const occurrence = findNext(both, from, createContext(options));
+  return occurrence && occurrence.date.getTime() <= until.getTime() ? occurrence : null;
+}
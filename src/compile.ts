@@ -0,0 +1,125 @@
+import { compileSchedule, dayOfWeek, matchesDay, type CompiledSchedule } from './calendar.js';
+import { resolveHashItems } from './jenkins.js';
+import { analyzeCron } from './parse.js';
+import {
+  createContext,
+  findNext,
+  firesAt,
+  type CronOccurrence,
+  type CronScheduleOptions,
+  type SearchContext,
+} from './schedule.js';
+import type { CronWallClock } from './timezone.js';
+import type { CronValidationError } from './types.js';
+
+/** A cron expression parsed once, for checking many times */
+export interface CompiledCron {
+  /** The expression as given */
+  readonly source: string;
+  /** Validation errors, empty when the expression is valid */
+  readonly errors: readonly CronValidationError[];
+  /** `true` when the expression passes `isCron` with the compile options */
+  isValid(): boolean;
+  /** Same as `matchesCron`; `false` for invalid expressions */
+  matches(date?: Date): boolean;
+  /** Same as `nextRun`; `null` for invalid expressions */
+  next(from?: Date): CronOccurrence | null;
+}
+
+/** Bits of the values a field matches: values 0-31 in `low`, 32-63 in `high` */
+interface FieldMask {
+  low: number;
+  high: number;
+}
+
+/**
+ * Packs field values (0-63) into a bit mask
+ */
+function toMask(values: readonly number[]): FieldMask {
+  const mask = { low: 0, high: 0 };
+  for (const value of values) {
+    if (value < 32) mask.low |= 1 << value;
+    else mask.high |= 1 << (value - 32);
+  }
+  return mask;
+}
+
+/**
+ * Checks whether a value's bit is set
+ */
+function hasBit(mask: FieldMask, value: number): boolean {
+  return value < 32 ? ((mask.low >>> value) & 1) === 1 : ((mask.high >>> (value - 32)) & 1) === 1;
+}
+
+/**
+ * Builds a wall-clock matcher that tests every field with bit operations.
+ * Quartz `L`, `W` and `#` items depend on the month and use `matchesDay`.
+ */
+function createMatcher(schedule: CompiledSchedule): (wall: CronWallClock) => boolean {
+  const second = toMask(schedule.second);
+  const minute = toMask(schedule.minute);
+  const hour = toMask(schedule.hour);
+  const dayOfMonth = toMask(schedule.dayOfMonth);
+  const month = toMask(schedule.month);
+  const weekdays = toMask(schedule.dayOfWeek);
+  const years = schedule.year && new Set(schedule.year);
+  const either = schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted;
+  const simpleDays = schedule.dayOfMonthRules.length === 0 && schedule.dayOfWeekRules.length === 0;
+
+  const matchesDays = (year: number, monthValue: number, day: number): boolean => {
+    if (!simpleDays) return matchesDay(schedule, year, monthValue, day);
+    const domMatch = hasBit(dayOfMonth, day);
+    const dowMatch = hasBit(weekdays, dayOfWeek(year, monthValue, day));
+    return either ? domMatch || dowMatch : domMatch && dowMatch;
+  };
+
+  return (wall) =>
+    hasBit(second, wall.second) &&
+    hasBit(minute, wall.minute) &&
+    hasBit(hour, wall.hour) &&
+    hasBit(month, wall.month) &&
+    (years === null || years.has(wall.year)) &&
+    matchesDays(wall.year, wall.month, wall.day);
+}
+
+/**
+ * Parse a cron expression once and check it many times.
+ *
+ * Fields are compiled into bit masks, so `matches` tests a wall-clock time with a
+ * few bit operations, and `next` skips parsing. Invalid expressions do not throw:
+ * `isValid()` is `false`, `matches` returns `false` and `next` returns `null`.
+ *
+ * @example
+ * const schedules = tenants.map((tenant) => compileCron(tenant.schedule, { timeZone: tenant.timeZone }));
+ * const now = new Date();
+ * const due = schedules.filter((schedule) => schedule.matches(now));
+ *
+ * @param expr - The cron expression
+ * @param options - Validation, time zone and DST options
+ * @returns A compiled expression
+ * @throws {TypeError} If a valid expression uses Jenkins `H` without `hashSeed`
+ * @throws {RangeError} If the expression is valid and the time zone is not known to the runtime
+ */
+export function compileCron(expr: string, options: CronScheduleOptions = {}): CompiledCron {
+  const { ast, errors } = analyzeCron(expr, options);
+  if (!ast) {
+    return { source: expr, errors, isValid: () => false, matches: () => false, next: () => null };
+  }
+
+  // Looking up the local zone builds a formatter, so it waits for the first check;
+  // named zones are cached, and checked here
+  let context: SearchContext | null = options.timeZone === undefined ? null : createContext(options);
+  const getContext = () => (context ??= createContext(options));
+  const resolved = ast.trigger === 'schedule' ? resolveHashItems(ast, options.hashSeed) : null;
+  const schedule = resolved && compileSchedule(resolved);
+  const matcher = schedule && createMatcher(schedule);
+  const seconds = resolved?.seconds ?? false;
+
+  return {
+    source: expr,
+    errors,
+    isValid: () => true,
+    matches: (date = new Date()) => matcher !== null && firesAt(date, seconds, getContext(), matcher),
+    next: (from = new Date()) => schedule && findNext(schedule, from, getContext()),
+  };
+}
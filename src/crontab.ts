@@ -0,0 +1,226 @@
+import { analyzeCron } from './parse.js';
+import type { CronAst, CronErrorCode, CronValidationError, IsCronOptions } from './types.js';
+
+/** Options for crontab parsing */
+export interface CrontabOptions extends IsCronOptions {
+  /**
+   * Expect a user column between the schedule and the command,
+   * as in `/etc/crontab` and files in `/etc/cron.d`.
+   * @default false
+   */
+  system?: boolean;
+}
+
+/** Machine-readable reason a crontab line was rejected, in addition to the expression codes */
+export type CrontabErrorCode = CronErrorCode | 'MISSING_USER' | 'MISSING_COMMAND';
+
+/** A problem found in a crontab file */
+export interface CrontabError extends Omit<CronValidationError, 'code'> {
+  code: CrontabErrorCode;
+  /** Line number (1-based) */
+  line: number;
+  /** Column of the first offending character (1-based) */
+  column: number;
+  /** Column just after the last offending character (1-based) */
+  endColumn: number;
+}
+
+interface CrontabLineBase {
+  /** Line number (1-based) */
+  line: number;
+  /** The line as written, without its line break */
+  text: string;
+}
+
+/** An empty or whitespace-only line */
+export interface CrontabBlankLine extends CrontabLineBase {
+  type: 'blank';
+}
+
+/** A `#` comment line */
+export interface CrontabCommentLine extends CrontabLineBase {
+  type: 'comment';
+  /** Text after the `#` */
+  comment: string;
+}
+
+/** A `NAME=value` environment assignment */
+export interface CrontabEnvironmentLine extends CrontabLineBase {
+  type: 'environment';
+  name: string;
+  /** Value with surrounding quotes removed */
+  value: string;
+}
+
+/** A schedule followed by a command */
+export interface CrontabJobLine extends CrontabLineBase {
+  type: 'job';
+  /** The schedule fields (or macro) as written */
+  schedule: string;
+  /** The parsed schedule, or `null` when it is not valid */
+  ast: CronAst | null;
+  /** The user column of system crontabs */
+  user?: string;
+  /** Everything after the schedule (and user) */
+  command: string;
+}
+
+/** A single line of a crontab file */
+export type CrontabLine = CrontabBlankLine | CrontabCommentLine | CrontabEnvironmentLine | CrontabJobLine;
+
+/** Result of parsing a crontab file */
+export interface CrontabParseResult {
+  /** `true` when no line has errors */
+  valid: boolean;
+  /** One entry per line */
+  lines: CrontabLine[];
+  /** Every problem found, in line order */
+  errors: CrontabError[];
+}
+
+/** A whitespace-separated token of a line */
+interface Token {
+  text: string;
+  start: number;
+  end: number;
+}
+
+// `NAME=value`, `NAME = value` or `NAME="value"`, as accepted by cronie
+const ENVIRONMENT_PATTERN = /^\s*([A-Za-z_][A-Za-z0-9_]*)\s*=\s*(.*?)\s*$/;
+
+/**
+ * Splits a line into whitespace-separated tokens with their positions
+ */
+function tokenize(text: string): Token[] {
+  return [...text.matchAll(/\S+/g)].map((match) => {
+    const start = match.index ?? 0;
+    return { text: match[0], start, end: start + match[0].length };
+  });
+}
+
+/**
+ * Removes one pair of matching single or double quotes around a value
+ */
+function unquote(value: string): string {
+  const quote = value[0];
+  if (value.length >= 2 && (quote === '"' || quote === "'") && value.endsWith(quote)) {
+    return value.slice(1, -1);
+  }
+  return value;
+}
+
+/**
+ * Parses a schedule line, reporting problems with offsets within the line
+ */
+function parseJob(
+  line: number,
+  text: string,
+  options: CrontabOptions,
+  fail: (error: Omit<CrontabError, 'line' | 'column' | 'endColumn'>) => void
+): CrontabJobLine {
+  const { system = false, macros = true, seconds = false } = options;
+  const tokens = tokenize(text);
+  const first = tokens[0] as Token;
+  const fieldCount = first.text.startsWith('@') ? 1 : seconds ? 6 : 5;
+
+  const scheduleTokens = tokens.slice(0, fieldCount);
+  const lastField = scheduleTokens[scheduleTokens.length - 1] as Token;
+  const schedule = text.slice(first.start, lastField.end);
+  const userToken = system ? tokens[fieldCount] : undefined;
+  const commandToken = tokens[fieldCount + (system ? 1 : 0)];
+  const command = commandToken ? text.slice(commandToken.start).trimEnd() : '';
+
+  let ast: CronAst | null = null;
+  if (scheduleTokens.length < fieldCount) {
+    fail({
+      code: 'FIELD_COUNT',
+      message: `Expected ${fieldCount} fields followed by ${system ? 'a user and ' : ''}a command`,
+      start: first.start,
+      end: lastField.end,
+    });
+  } else {
+    const analysis = analyzeCron(schedule, { ...options, macros });
+    ast = analysis.ast;
+    for (const error of analysis.errors) {
+      fail({ ...error, start: error.start + first.start, end: error.end + first.start });
+    }
+
+    if (system && !userToken) {
+      const message = 'Expected a user after the schedule';
+      fail({ code: 'MISSING_USER', message, start: lastField.end, end: text.length });
+    } else if (!commandToken) {
+      const after = userToken ?? lastField;
+      const message = `Expected a command after the ${userToken ? 'user' : 'schedule'}`;
+      fail({ code: 'MISSING_COMMAND', message, start: after.end, end: text.length });
+    }
+  }
+
+  const job: CrontabJobLine = { type: 'job', line, text, schedule, ast, command };
+  if (userToken) job.user = userToken.text;
+  return job;
+}
+
+/**
+ * Parse a crontab file and report every problem found.
+ *
+ * Understands blank lines, `#` comments, `NAME=value` environment assignments,
+ * and jobs made of a schedule followed by a command. Schedules are 5 fields
+ * (6 with `seconds`) or a macro such as `@daily`; macros are accepted unless
+ * `macros` is `false`. With `system`, a user column follows the schedule, as in
+ * `/etc/crontab` and `/etc/cron.d`.
+ *
+ * @example
+ * const { valid, errors } = parseCrontab('SHELL=/bin/sh\n0 25 * * * backup.sh\n');
+ * // valid: false
+ * // errors[0]: { code: 'OUT_OF_RANGE', line: 2, column: 3, endColumn: 5, ... }
+ *
+ * @param text - Contents of the crontab file
+ * @param options - Validation options for every schedule, plus `system`
+ * @returns The parsed lines and diagnostics with line and column numbers
+ */
+export function parseCrontab(text: string, options: CrontabOptions = {}): CrontabParseResult {
+  const lines: CrontabLine[] = [];
+  const errors: CrontabError[] = [];
+  let lineStart = 0;
+
+  text.split('\n').forEach((raw, index) => {
+    const line = index + 1;
+    const lineText = raw.endsWith('\r') ? raw.slice(0, -1) : raw;
+    const offset = lineStart;
+    lineStart += raw.length + 1;
+
+    const trimmed = lineText.trim();
+    if (trimmed === '') {
+      // A trailing line break does not start another line
+      if (lineStart > text.length && raw === '') return;
+      lines.push({ type: 'blank', line, text: lineText });
+      return;
+    }
+    if (trimmed.startsWith('#')) {
+      lines.push({ type: 'comment', line, text: lineText, comment: trimmed.slice(1) });
+      return;
+    }
+
+    const environment = lineText.match(ENVIRONMENT_PATTERN);
+    if (environment) {
+      const [, name = '', value = ''] = environment;
+      lines.push({ type: 'environment', line, text: lineText, name, value: unquote(value) });
+      return;
+    }
+
+    lines.push(
+      parseJob(line, lineText, options, (error) => {
+        errors.push({
+          ...error,
+          start: offset + error.start,
+          end: offset + error.end,
+          line,
+          column: error.start + 1,
+          endColumn: error.end + 1,
+        });
+      })
+    );
+  });
+
+  return { valid: errors.length === 0, lines, errors };
+}
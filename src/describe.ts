@@ -0,0 +1,368 @@
+import { expandItem, expansionBounds } from './calendar.js';
+import { getFieldSpecs, type FieldSpec } from './fields.js';
+import type { CronDescribeUnit, CronLocale } from './locale.js';
+import { resolveHashItems } from './jenkins.js';
+import { enLocale } from './locales/en.js';
+import { parseCron } from './parse.js';
+import type {
+  CronAst,
+  CronDialect,
+  CronFieldName,
+  CronFieldNode,
+  CronItem,
+  CronStepItem,
+  CronValueItem,
+  IsCronOptions,
+} from './types.js';
+
+/** Options for `describeCron` */
+export interface DescribeCronOptions extends IsCronOptions {
+  /**
+   * Use a 12-hour clock (`9:00 AM`) instead of a 24-hour clock (`09:00`).
+   * @default false
+   */
+  hour12?: boolean;
+
+  /**
+   * Spell out implicit parts of the schedule such as "every hour" and "every day".
+   * @default false
+   */
+  verbose?: boolean;
+}
+
+/** Everything needed while describing one expression */
+interface DescribeContext {
+  locale: CronLocale;
+  hour12: boolean;
+  /** Whether times include seconds */
+  seconds: boolean;
+  dialect: CronDialect;
+}
+
+/**
+ * Returns the field node with the given name
+ */
+function getField(ast: CronAst, name: CronFieldName): CronFieldNode | undefined {
+  return ast.fields.find((node) => node.name === name);
+}
+
+/**
+ * Checks whether a field is `*` or `?` (matches everything)
+ */
+function isUnrestricted(node: CronFieldNode | undefined): boolean {
+  return !node || node.text === '*' || node.text === '?';
+}
+
+/**
+ * Returns the value of a field that is a single number, if it is one
+ */
+function singleValue(node: CronFieldNode | undefined): number | undefined {
+  const item = node?.items[0];
+  return node?.items.length === 1 && item?.type === 'value' ? item.value : undefined;
+}
+
+/**
+ * Narrows a list item to a single value
+ */
+function isValueItem(item: CronItem): item is CronValueItem {
+  return item.type === 'value';
+}
+
+/**
+ * Returns the only item of a field when it is of the given type
+ */
+function onlyItem<T extends CronItem['type']>(
+  node: CronFieldNode,
+  type: T
+): Extract<CronItem, { type: T }> | undefined {
+  const item = node.items[0];
+  return node.items.length === 1 && item?.type === type ? (item as Extract<CronItem, { type: T }>) : undefined;
+}
+
+/**
+ * Formats values and ranges of a list, e.g. "1 through 5 and 10"
+ */
+function formatValues(items: CronItem[], format: (value: number) => string, locale: CronLocale): string {
+  const parts: string[] = [];
+  for (const item of items) {
+    if (item.type === 'value') parts.push(format(item.value));
+    if (item.type === 'range') parts.push(locale.range(format(item.from), format(item.to)));
+  }
+  return locale.list(parts);
+}
+
+/**
+ * Describes a stepped item, e.g. "every 5 minutes from minute 0 through 30"
+ */
+function describeStep(
+  item: CronStepItem,
+  unit: CronDescribeUnit,
+  format: (value: number) => string,
+  locale: CronLocale
+): string {
+  const { base } = item;
+  if (base.type === 'range') return locale.everyFromThrough(unit, item.step, format(base.from), format(base.to));
+  if (base.type === 'value') return locale.everyStartingAt(unit, item.step, format(base.value));
+  return locale.every(unit, item.step);
+}
+
+/**
+ * Describes a second or minute field on its own
+ */
+function describeUnitField(node: CronFieldNode, unit: 'second' | 'minute', locale: CronLocale): string {
+  if (node.text === '*') return locale.every(unit, 1);
+
+  const format = String;
+  const range = onlyItem(node, 'range');
+  if (range) {
+    return locale.everyFromThrough(unit, 1, format(range.from), format(range.to));
+  }
+
+  const clauses = node.items
+    .filter((item): item is CronStepItem => item.type === 'step')
+    .map((item) => describeStep(item, unit, format, locale));
+  const values = node.items.filter((item) => item.type === 'value' || item.type === 'range');
+  if (values.length > 0) {
+    const count = values.length === 1 && values[0]?.type === 'value' ? 1 : 2;
+    clauses.push(locale.atValues(unit, formatValues(values, format, locale), count));
+  }
+  return clauses.reduce((all, clause) => locale.and(all, clause));
+}
+
+/**
+ * Describes an hour field on its own (used when minutes are not a single value)
+ */
+function describeHourField(node: CronFieldNode, context: DescribeContext): string | undefined {
+  const { locale, hour12 } = context;
+  if (node.text === '*') return undefined;
+
+  const start = (hour: number) => locale.time(hour, 0, undefined, hour12);
+  const end = (hour: number) => locale.time(hour, 59, undefined, hour12);
+
+  const value = singleValue(node);
+  if (value !== undefined) return locale.betweenTimes(start(value), end(value));
+
+  const range = onlyItem(node, 'range');
+  if (range) return locale.betweenTimes(start(range.from), end(range.to));
+
+  const step = onlyItem(node, 'step');
+  if (step) return describeStep(step, 'hour', start, locale);
+
+  return locale.duringHours(formatValues(expandSteps(node, context.dialect), start, locale));
+}
+
+/**
+ * Replaces stepped items with the values they match
+ */
+function expandSteps(node: CronFieldNode, dialect: CronDialect): CronItem[] {
+  const spec = getFieldSpecs(true).find((candidate) => candidate.name === node.name) as FieldSpec;
+  const { min, max, wrapAt } = expansionBounds(spec, dialect);
+  return node.items.flatMap((item): CronItem[] => {
+    if (item.type !== 'step') return [item];
+    const values = expandItem(item, min, max, wrapAt);
+    return values.map((value) => ({ type: 'value', text: String(value), span: item.span, value }));
+  });
+}
+
+/**
+ * Describes the second, minute and hour fields together
+ */
+function describeTime(ast: CronAst, context: DescribeContext, verbose: boolean): string[] {
+  const { locale, hour12 } = context;
+  const secondNode = getField(ast, 'second');
+  const minuteNode = getField(ast, 'minute') as CronFieldNode;
+  const hourNode = getField(ast, 'hour') as CronFieldNode;
+
+  const second = secondNode ? singleValue(secondNode) : 0;
+  const minute = singleValue(minuteNode);
+
+  if (second !== undefined && minute !== undefined) {
+    const shownSecond = context.seconds && second !== 0 ? second : undefined;
+    const time = (hour: number) => locale.time(hour, minute, shownSecond, hour12);
+
+    const hours = hourNode.items.filter(isValueItem);
+    if (hours.length === hourNode.items.length) {
+      return [locale.atTimes(locale.list(hours.map((item) => time(item.value))))];
+    }
+
+    const range = onlyItem(hourNode, 'range');
+    if (range) return [locale.everyHourFromTo(time(range.from), time(range.to))];
+
+    if (hourNode.text === '*') {
+      return [minute === 0 && second === 0 ? locale.every('hour', 1) : locale.everyHourAt(minute, second)];
+    }
+
+    const step = onlyItem(hourNode, 'step');
+    if (step) {
+      const segments = [describeStep(step, 'hour', time, locale)];
+      if (step.base.type === 'wildcard' && (minute !== 0 || second !== 0)) {
+        segments.push(locale.atValues('minute', String(minute), 1));
+      }
+      return segments;
+    }
+  }
+
+  const segments: string[] = [];
+  const describeSeconds = secondNode !== undefined && second !== 0;
+  if (describeSeconds) {
+    segments.push(describeUnitField(secondNode, 'second', locale));
+  }
+  // "Every 5 seconds" already implies every minute
+  if (!describeSeconds || minuteNode.text !== '*' || singleValue(secondNode) !== undefined || verbose) {
+    segments.push(describeUnitField(minuteNode, 'minute', locale));
+  }
+
+  const hours = describeHourField(hourNode, context);
+  if (hours) segments.push(hours);
+  else if (verbose) segments.push(locale.every('hour', 1));
+
+  return segments;
+}
+
+/**
+ * Describes a field holding a single Quartz `L`, `W` or `#` item
+ */
+function describeCalendarItem(node: CronFieldNode, locale: CronLocale): string | undefined {
+  const item = node.items.length === 1 ? node.items[0] : undefined;
+  const dayName = (value: number) => locale.dayNames[value] as string;
+
+  switch (item?.type) {
+    case 'lastDay':
+      return locale.lastDayOfMonth(item.offset);
+    case 'nearestWeekday':
+      return locale.nearestWeekday(locale.ordinal(item.day));
+    case 'lastWeekday':
+      return locale.lastWeekdayOfMonth;
+    case 'lastDayOfWeek':
+      return locale.lastDayOfWeek(dayName(item.day));
+    case 'nthDayOfWeek':
+      return locale.nthDayOfWeek(dayName(item.day), item.nth);
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Describes the day of month field
+ */
+function describeDayOfMonth(node: CronFieldNode, locale: CronLocale, dialect: CronDialect): string {
+  const calendar = describeCalendarItem(node, locale);
+  if (calendar) return calendar;
+
+  const step = onlyItem(node, 'step');
+  if (step) return describeStep(step, 'day', locale.ordinal, locale);
+  return locale.onDaysOfMonth(formatValues(expandSteps(node, dialect), locale.ordinal, locale));
+}
+
+/**
+ * Describes the day of week field
+ */
+function describeDayOfWeek(node: CronFieldNode, locale: CronLocale, dialect: CronDialect): string {
+  const dayName = (value: number) => locale.dayNames[value % 7] as string;
+
+  const calendar = describeCalendarItem(node, locale);
+  if (calendar) return calendar;
+
+  const range = onlyItem(node, 'range');
+  if (range) return locale.range(dayName(range.from), dayName(range.to));
+
+  // Steps over days of the week read better as the days they select
+  const items = expandSteps(node, dialect);
+  const days = items.filter(isValueItem);
+  const values = days.length === items.length
+    ? [...new Set(days.map((item) => item.value % 7))].sort((a, b) => a - b).map(dayName)
+    : [formatValues(items, dayName, locale)];
+  return locale.onDaysOfWeek(locale.list(values));
+}
+
+/**
+ * Describes the month field
+ */
+function describeMonth(node: CronFieldNode, locale: CronLocale, dialect: CronDialect): string {
+  const monthName = (value: number) => locale.monthNames[value - 1] as string;
+
+  const range = onlyItem(node, 'range');
+  if (range) return locale.range(monthName(range.from), monthName(range.to));
+
+  const step = onlyItem(node, 'step');
+  if (step) return describeStep(step, 'month', monthName, locale);
+
+  return locale.inMonths(formatValues(expandSteps(node, dialect), monthName, locale));
+}
+
+/**
+ * Describes the Quartz year field
+ */
+function describeYear(node: CronFieldNode, locale: CronLocale): string {
+  const year = (value: number) => locale.year(value);
+
+  const step = onlyItem(node, 'step');
+  if (step) return describeStep(step, 'year', year, locale);
+
+  return locale.inYears(formatValues(node.items, year, locale));
+}
+
+/**
+ * Describes the day of month, month, day of week and year fields together
+ */
+function describeDate(ast: CronAst, locale: CronLocale, verbose: boolean): string[] {
+  const dayOfMonthNode = getField(ast, 'dayOfMonth') as CronFieldNode;
+  const monthNode = getField(ast, 'month') as CronFieldNode;
+  const dayOfWeekNode = getField(ast, 'dayOfWeek') as CronFieldNode;
+  const yearNode = getField(ast, 'year');
+
+  const segments: string[] = [];
+  const dayOfMonth = isUnrestricted(dayOfMonthNode) ? undefined : describeDayOfMonth(dayOfMonthNode, locale, ast.dialect);
+  const dayOfWeek = isUnrestricted(dayOfWeekNode) ? undefined : describeDayOfWeek(dayOfWeekNode, locale, ast.dialect);
+
+  // Vixie cron: when both day fields are restricted, either one matching is enough
+  const restricted = (node: CronFieldNode) => !node.text.startsWith('*') && !node.text.startsWith('?');
+  if (dayOfMonth && dayOfWeek && restricted(dayOfMonthNode) && restricted(dayOfWeekNode)) {
+    segments.push(locale.or(dayOfMonth, dayOfWeek));
+  } else {
+    if (dayOfMonth) segments.push(dayOfMonth);
+    if (dayOfWeek) segments.push(dayOfWeek);
+  }
+
+  if (segments.length === 0 && verbose) {
+    segments.push(locale.every('day', 1));
+  }
+  if (!isUnrestricted(monthNode)) {
+    segments.push(describeMonth(monthNode, locale, ast.dialect));
+  }
+  if (yearNode && !isUnrestricted(yearNode)) {
+    segments.push(describeYear(yearNode, locale));
+  }
+
+  return segments;
+}
+
+/**
+ * Describe a cron expression in plain language.
+ *
+ * Descriptions are in English unless a `locale` pack is given.
+ *
+ * @example
+ * describeCron('0 9-17 * * MON-FRI');
+ * // 'Every hour from 09:00 to 17:00, Monday through Friday'
+ *
+ * describeCron('0 9 * * MO-FR', { locale: deLocale });
+ * // 'Um 09:00, Montag bis Freitag'
+ *
+ * @param expr - The cron expression
+ * @param options - Validation and wording options
+ * @returns A human-readable description
+ * @throws {CronParseError} If the expression is not valid
+ * @throws {TypeError} If the expression uses Jenkins `H` without `hashSeed`
+ */
+export function describeCron(expr: string, options: DescribeCronOptions = {}): string {
+  const { hour12 = false, verbose = false, locale = enLocale } = options;
+  const ast = resolveHashItems(parseCron(expr, options), options.hashSeed);
+  if (ast.trigger === 'reboot') return locale.atReboot;
+  if (ast.rate) return locale.sentence([locale.every(ast.rate.unit, ast.rate.value)], [], true);
+
+  const context: DescribeContext = { locale, hour12, seconds: ast.seconds, dialect: ast.dialect };
+
+  const everyMonth = isUnrestricted(getField(ast, 'month'));
+  return locale.sentence(describeTime(ast, context, verbose), describeDate(ast, locale, verbose), everyMonth);
+}
@@ -0,0 +1,116 @@
+import {
+  compileSchedule,
+  daysInMonth,
+  expandItem,
+  expansionBounds,
+  firesInYear,
+  REFERENCE_YEARS,
+  type CompiledSchedule,
+} from './calendar.js';
+import { getFieldSpecs } from './fields.js';
+import { hashChoices, hasHashItems, resolveHashItems } from './jenkins.js';
+import { enLocale } from './locales/en.js';
+import type { CronAst, CronFieldName, CronItem, CronValidationError } from './types.js';
+
+/** Why an expression never fires, and the fields responsible */
+interface Explanation {
+  message: string;
+  fields: CronFieldName[];
+}
+
+const DATE_FIELDS: CronFieldName[] = ['dayOfMonth', 'month', 'dayOfWeek'];
+
+/**
+ * Checks whether a year is a leap year
+ */
+function isLeapYear(year: number): boolean {
+  return daysInMonth(year, 2) === 29;
+}
+
+/**
+ * Works out why no date matches, given that none does
+ */
+function explain(schedule: CompiledSchedule): Explanation {
+  const years = schedule.year;
+  if (years && REFERENCE_YEARS.some((year) => firesInYear(schedule, year))) {
+    const leapOnly = REFERENCE_YEARS.every((year) => isLeapYear(year) || !firesInYear(schedule, year));
+    return {
+      message: leapOnly && !years.some(isLeapYear)
+        ? 'It can only fire on February 29, and the year field allows no leap years'
+        : 'No date matching the day and month fields falls in the allowed years',
+      fields: [...DATE_FIELDS, 'year'],
+    };
+  }
+
+  const plainDays = schedule.dayOfMonthRules.length === 0;
+  const anyWeekday = !schedule.dayOfWeekRestricted && schedule.dayOfWeekRules.length === 0;
+  if (plainDays && anyWeekday) {
+    const days = enLocale.list(schedule.dayOfMonth.map(String));
+    const months = enLocale.list(schedule.month.map((month) => enLocale.monthNames[month - 1] ?? String(month)));
+    return {
+      message: schedule.dayOfMonth.length === 1
+        ? `Day ${days} never occurs in ${months}`
+        : `Days ${days} never occur in ${months}`,
+      fields: ['dayOfMonth', 'month'],
+    };
+  }
+
+  return { message: 'No date matches the day of month, month and day of week fields', fields: DATE_FIELDS };
+}
+
+/**
+ * Returns the expression with each Jenkins `H` of the date fields resolved to
+ * the value least likely to fire: the latest day of the month, and the month
+ * with the fewest days. Jenkins has no year field and no `L`, `W` or `#`, so
+ * some seed never fires exactly when this expression never fires. Times of day
+ * always occur, so `H` in the other fields is left as it is.
+ */
+function worstHashVariant(ast: CronAst): CronAst {
+  const specs = getFieldSpecs(ast.seconds);
+  const fields = ast.fields.map((node) => {
+    const spec = specs.find((candidate) => candidate.name === node.name);
+    if (!spec || !DATE_FIELDS.includes(node.name)) return node;
+
+    const { min, max, wrapAt } = expansionBounds(spec, ast.dialect);
+    const score = (choice: CronItem): number => {
+      const values = expandItem(choice, min, max, wrapAt);
+      if (node.name === 'dayOfMonth') return Math.min(...values);
+      // 2000 is a leap year, so February has its 29th
+      if (node.name === 'month') return -Math.max(...values.map((month) => daysInMonth(2000, month)));
+      return 0;
+    };
+    const items = node.items.map((item) => {
+      const choices = hashChoices(item);
+      return choices ? choices.reduce((worst, choice) => (score(choice) > score(worst) ? choice : worst)) : item;
+    });
+    return { ...node, items };
+  });
+  return { ...ast, fields };
+}
+
+/**
+ * Finds expressions that are valid but can never fire, such as `0 0 30 FEB *`.
+ * February 29 is possible unless the year field rules out every leap year.
+ * Jenkins `H` is resolved with `hashSeed`; without one, every value it can
+ * pick must fire, so `H(29-31)` is rejected in February.
+ *
+ * @returns An `IMPOSSIBLE_SCHEDULE` error spanning the fields responsible, or `null`
+ */
+export function checkImpossibleSchedule(ast: CronAst, hashSeed?: string): CronValidationError | null {
+  if (ast.trigger !== 'schedule') return null;
+
+  const unseeded = hashSeed === undefined && hasHashItems(ast);
+  const resolved = hashSeed === undefined ? worstHashVariant(ast) : resolveHashItems(ast, hashSeed);
+  const schedule = compileSchedule(resolved);
+  const years = schedule.year ?? REFERENCE_YEARS;
+  if (years.some((year) => firesInYear(schedule, year))) return null;
+
+  const { message, fields } = explain(schedule);
+  const nodes = ast.fields.filter((node) => fields.includes(node.name));
+  return {
+    code: 'IMPOSSIBLE_SCHEDULE',
+    message: unseeded ? `${message} (for some hash seeds)` : message,
+    start: Math.min(...nodes.map((node) => node.span.start)),
+    end: Math.max(...nodes.map((node) => node.span.end)),
+  };
+}
@@ -0,0 +1,158 @@
+import type { CronFieldName } from './types.js';
+
+// Regex patterns for cron field validation
+// All patterns support optional leading zeros for better compatibility
+export const MINUTE_SECOND_PATTERN = /^(\*|[0-5]?\d)(-([0-5]?\d))?(\/([1-9]\d*))?$/;
+export const HOUR_PATTERN = /^(\*|[01]?\d|2[0-3])(-([01]?\d|2[0-3]))?(\/([1-9]\d*))?$/;
+export const DAY_OF_MONTH_PATTERN = /^(\*|0?[1-9]|[12]\d|3[01])(-([0-9]|0?[1-9]|[12]\d|3[01]))?(\/([1-9]\d*))?$|^\?$/;
+export const MONTH_PATTERN = /^(\*|0?[1-9]|1[0-2])(-(0?[1-9]|1[0-2]))?(\/([1-9]\d*))?$/;
+export const DAY_OF_WEEK_PATTERN = /^(\*|0?[0-7])(-0?[0-7])?(\/([1-9]\d*))?$|^\?$/;
+export const QUARTZ_DAY_OF_WEEK_PATTERN = /^(\*|[1-7])(-[1-7])?(\/([1-9]\d*))?$|^\?$/;
+export const YEAR_PATTERN = /^(\*|\d{4})(-(\d{4}))?(\/([1-9]\d*))?$/;
+
+// Alias patterns for months and days of week
+export const MONTH_ALIASES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'] as const;
+export const DAY_ALIASES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'] as const;
+
+/** Validation rules for a single cron field */
+export interface FieldSpec {
+  name: CronFieldName;
+  /** Human-readable name used in messages */
+  label: string;
+  pattern: RegExp;
+  min: number;
+  max: number;
+  aliases?: readonly string[];
+}
+
+/** Second field (0-59) */
+export const SECOND_FIELD: FieldSpec = {
+  name: 'second',
+  label: 'second',
+  pattern: MINUTE_SECOND_PATTERN,
+  min: 0,
+  max: 59,
+};
+
+/** Minute field (0-59) */
+export const MINUTE_FIELD: FieldSpec = {
+  name: 'minute',
+  label: 'minute',
+  pattern: MINUTE_SECOND_PATTERN,
+  min: 0,
+  max: 59,
+};
+
+/** Hour field (0-23) */
+export const HOUR_FIELD: FieldSpec = {
+  name: 'hour',
+  label: 'hour',
+  pattern: HOUR_PATTERN,
+  min: 0,
+  max: 23,
+};
+
+/** Day of month field (1-31) */
+export const DAY_OF_MONTH_FIELD: FieldSpec = {
+  name: 'dayOfMonth',
+  label: 'day of month',
+  pattern: DAY_OF_MONTH_PATTERN,
+  min: 1,
+  max: 31,
+};
+
+/** Month field (1-12 or JAN-DEC) */
+export const MONTH_FIELD: FieldSpec = {
+  name: 'month',
+  label: 'month',
+  pattern: MONTH_PATTERN,
+  min: 1,
+  max: 12,
+  aliases: MONTH_ALIASES,
+};
+
+/** Day of week field (0-7, where 0 and 7 are Sunday, or SUN-SAT) */
+export const DAY_OF_WEEK_FIELD: FieldSpec = {
+  name: 'dayOfWeek',
+  label: 'day of week',
+  pattern: DAY_OF_WEEK_PATTERN,
+  min: 0,
+  max: 7,
+  aliases: DAY_ALIASES,
+};
+
+/** Quartz day of week field (1-7, where 1 is Sunday, or SUN-SAT) */
+export const QUARTZ_DAY_OF_WEEK_FIELD: FieldSpec = {
+  name: 'dayOfWeek',
+  label: 'day of week',
+  pattern: QUARTZ_DAY_OF_WEEK_PATTERN,
+  min: 1,
+  max: 7,
+  aliases: DAY_ALIASES,
+};
+
+/** Quartz year field (1970-2099) */
+export const YEAR_FIELD: FieldSpec = {
+  name: 'year',
+  label: 'year',
+  pattern: YEAR_PATTERN,
+  min: 1970,
+  max: 2099,
+};
+
+/** EventBridge year field (1970-2199) */
+export const EVENTBRIDGE_YEAR_FIELD: FieldSpec = {
+  ...YEAR_FIELD,
+  max: 2199,
+};
+
+const STANDARD_FIELDS: readonly FieldSpec[] = [
+  MINUTE_FIELD,
+  HOUR_FIELD,
+  DAY_OF_MONTH_FIELD,
+  MONTH_FIELD,
+  DAY_OF_WEEK_FIELD,
+];
+
+const EXTENDED_FIELDS: readonly FieldSpec[] = [SECOND_FIELD, ...STANDARD_FIELDS];
+
+const QUARTZ_FIELDS: readonly FieldSpec[] = [
+  SECOND_FIELD,
+  MINUTE_FIELD,
+  HOUR_FIELD,
+  DAY_OF_MONTH_FIELD,
+  MONTH_FIELD,
+  QUARTZ_DAY_OF_WEEK_FIELD,
+];
+
+const QUARTZ_FIELDS_WITH_YEAR: readonly FieldSpec[] = [...QUARTZ_FIELDS, YEAR_FIELD];
+
+const EVENTBRIDGE_FIELDS: readonly FieldSpec[] = [
+  MINUTE_FIELD,
+  HOUR_FIELD,
+  DAY_OF_MONTH_FIELD,
+  MONTH_FIELD,
+  QUARTZ_DAY_OF_WEEK_FIELD,
+  EVENTBRIDGE_YEAR_FIELD,
+];
+
+/**
+ * Returns the field layout for the 5-field or 6-field format
+ */
+export function getFieldSpecs(seconds: boolean): readonly FieldSpec[] {
+  return seconds ? EXTENDED_FIELDS : STANDARD_FIELDS;
+}
+
+/**
+ * Returns the Quartz field layout, with or without the optional year field
+ */
+export function getQuartzFieldSpecs(year: boolean): readonly FieldSpec[] {
+  return year ? QUARTZ_FIELDS_WITH_YEAR : QUARTZ_FIELDS;
+}
+
+/**
+ * Returns the EventBridge field layout (no seconds, required year)
+ */
+export function getEventBridgeFieldSpecs(): readonly FieldSpec[] {
+  return EVENTBRIDGE_FIELDS;
+}
@@ -0,0 +1,193 @@
+import { compileSchedule, daysInMonth, matchesDay, type CompiledSchedule } from './calendar.js';
+import { resolveHashItems } from './jenkins.js';
+import { parseCron } from './parse.js';
+import type { CronRate, IsCronOptions } from './types.js';
+
+/** Options for `analyzeFrequency` */
+export interface AnalyzeFrequencyOptions extends IsCronOptions {
+  /**
+   * Flag expressions whose runs can be closer together than this many milliseconds.
+   * @default 60000 (one minute)
+   */
+  threshold?: number;
+}
+
+/** How often an expression fires, in wall-clock time */
+export interface CronFrequency {
+  /** Shortest gap between consecutive runs in milliseconds, or `null` if it runs only once */
+  minInterval: number | null;
+  /** Longest gap between consecutive runs in milliseconds, or `null` if it runs only once */
+  maxInterval: number | null;
+  /** Average gap between consecutive runs in milliseconds, or `null` if it runs only once */
+  averageInterval: number | null;
+  /** Average runs per hour */
+  runsPerHour: number;
+  /** Average runs per day */
+  runsPerDay: number;
+  /** Average runs per month */
+  runsPerMonth: number;
+  /** Average runs per year */
+  runsPerYear: number;
+  /** `true` when two runs can be closer together than `threshold` */
+  tooFrequent: boolean;
+}
+
+const SECOND_MS = 1000;
+const MINUTE_MS = 60 * SECOND_MS;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+// The Gregorian calendar, weekdays included, repeats every 400 years
+const CYCLE_START = 2000;
+const CYCLE_YEARS = 400;
+const CYCLE_DAYS = 146097;
+
+const RATE_MS: Record<CronRate['unit'], number> = { minute: MINUTE_MS, hour: HOUR_MS, day: DAY_MS };
+
+/** Runs and the calendar they were counted over */
+interface RunCount {
+  runs: number;
+  years: number;
+  days: number;
+}
+
+/**
+ * Returns the times of day a schedule fires at, in milliseconds after midnight, ascending
+ */
+function timesOfDay(schedule: CompiledSchedule): number[] {
+  const times: number[] = [];
+  for (const hour of schedule.hour) {
+    for (const minute of schedule.minute) {
+      for (const second of schedule.second) {
+        times.push(hour * HOUR_MS + minute * MINUTE_MS + second * SECOND_MS);
+      }
+    }
+  }
+  return times;
+}
+
+/**
+ * Returns the matching days of the given years, as days since 1970-01-01, ascending
+ */
+function matchingDays(schedule: CompiledSchedule, years: readonly number[]): number[] {
+  const days: number[] = [];
+  for (const year of years) {
+    for (const month of schedule.month) {
+      const last = daysInMonth(year, month);
+      for (let day = 1; day <= last; day++) {
+        if (matchesDay(schedule, year, month, day)) {
+          days.push(Date.UTC(year, month - 1, day) / DAY_MS);
+        }
+      }
+    }
+  }
+  return days;
+}
+
+/**
+ * Returns the smallest and largest gap between consecutive values
+ */
+function gapRange(values: readonly number[]): [number, number] | null {
+  let min = Infinity;
+  let max = -Infinity;
+  for (let index = 1; index < values.length; index++) {
+    const gap = (values[index] as number) - (values[index - 1] as number);
+    min = Math.min(min, gap);
+    max = Math.max(max, gap);
+  }
+  return values.length > 1 ? [min, max] : null;
+}
+
+/**
+ * Turns run counts and gaps into averages per period
+ */
+function toFrequency(
+  { runs, years, days }: RunCount,
+  intervals: [number, number] | null,
+  averageInterval: number | null,
+  threshold: number
+): CronFrequency {
+  const runsPerDay = runs / days;
+  const runsPerYear = runs / years;
+  return {
+    minInterval: intervals && intervals[0],
+    maxInterval: intervals && intervals[1],
+    averageInterval,
+    runsPerHour: runsPerDay / 24,
+    runsPerDay,
+    runsPerMonth: runsPerYear / 12,
+    runsPerYear,
+    tooFrequent: intervals !== null && intervals[0] < threshold,
+  };
+}
+
+/**
+ * Analyze how often a cron expression fires.
+ *
+ * Runs are counted exactly from the expanded fields, in wall-clock time without
+ * DST transitions. Steps restart at the top of every larger unit, so `*\/7` in
+ * minutes fires at :56 and again 4 minutes later at :00. Expressions without a
+ * year field are analyzed over the 400-year Gregorian cycle, so leap years and
+ * weekdays are weighted exactly; with a Quartz or EventBridge year field, over
+ * the years it lists.
+ *
+ * @example
+ * analyzeFrequency('*\/7 * * * *');
+ * // {
+ * //   minInterval: 240000, maxInterval: 420000, averageInterval: 400000,
+ * //   runsPerHour: 9, runsPerDay: 216, runsPerMonth: 6574.365, runsPerYear: 78892.38,
+ * //   tooFrequent: false
+ * // }
+ *
+ * analyzeFrequency('* * * * * *', { seconds: true }).tooFrequent; // true
+ *
+ * @param expr - The cron expression
+ * @param options - Validation options, plus the `threshold` for `tooFrequent`
+ * @returns Run counts and intervals, or `null` if the expression never fires (always for `@reboot`)
+ * @throws {CronParseError} If the expression is not valid
+ * @throws {TypeError} If the expression uses Jenkins `H` without `hashSeed`
+ */
+export function analyzeFrequency(expr: string, options: AnalyzeFrequencyOptions = {}): CronFrequency | null {
+  const { threshold = MINUTE_MS } = options;
+  const ast = parseCron(expr, options);
+  const cycle = { years: CYCLE_YEARS, days: CYCLE_DAYS };
+
+  if (ast.trigger === 'rate' && ast.rate) {
+    const interval = ast.rate.value * RATE_MS[ast.rate.unit];
+    return toFrequency({ runs: (CYCLE_DAYS * DAY_MS) / interval, ...cycle }, [interval, interval], interval, threshold);
+  }
+  if (ast.trigger !== 'schedule') return null;
+
+  const schedule = compileSchedule(resolveHashItems(ast, options.hashSeed));
+  const years = schedule.year ?? Array.from({ length: CYCLE_YEARS }, (_, index) => CYCLE_START + index);
+  const times = timesOfDay(schedule);
+  const days = matchingDays(schedule, years);
+  const runs = days.length * times.length;
+  if (runs === 0) return null;
+
+  const firstTime = times[0] as number;
+  const lastTime = times[times.length - 1] as number;
+  const firstDay = days[0] as number;
+  const lastDay = days[days.length - 1] as number;
+
+  // Without a year field the cycle repeats, so the last day is followed by the first one
+  const dayGaps = gapRange(schedule.year ? days : [...days, firstDay + CYCLE_DAYS]);
+  const timeGaps = gapRange(times);
+  const gaps = [
+    ...(timeGaps ?? []),
+    ...(dayGaps ? dayGaps.map((gap) => gap * DAY_MS - lastTime + firstTime) : []),
+  ];
+  const intervals: [number, number] | null = gaps.length > 0 ? [Math.min(...gaps), Math.max(...gaps)] : null;
+
+  if (!schedule.year) {
+    return toFrequency({ runs, ...cycle }, intervals, (CYCLE_DAYS * DAY_MS) / runs, threshold);
+  }
+
+  const count = {
+    runs,
+    years: years.length,
+    days: years.reduce((total, year) => total + (Date.UTC(year + 1, 0, 1) - Date.UTC(year, 0, 1)) / DAY_MS, 0),
+  };
+  const span = (lastDay - firstDay) * DAY_MS + lastTime - firstTime;
+  return toFrequency(count, intervals, runs > 1 ? span / (runs - 1) : null, threshold);
+}
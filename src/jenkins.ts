@@ -0,0 +1,109 @@
+import { parseCron } from './parse.js';
+import type { CronAst, CronFieldNode, CronItem, IsCronOptions } from './types.js';
+
+/**
+ * Hashes a string to an unsigned 32-bit integer (FNV-1a with a final mix).
+ * Works on UTF-8 bytes, so results are the same in every runtime and process.
+ */
+export function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (const byte of new TextEncoder().encode(value)) {
+    hash = Math.imul(hash ^ byte, 0x01000193);
+  }
+
+  // Spread the low bits, which are used for small ranges
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  return hash >>> 0;
+}
+
+/**
+ * Checks whether an expression uses Jenkins `H` anywhere
+ */
+export function hasHashItems(ast: CronAst): boolean {
+  return ast.fields.some((node) =>
+    node.items.some((item) => item.type === 'hash' || (item.type === 'step' && item.base.type === 'hash'))
+  );
+}
+
+/**
+ * Returns every item a Jenkins `H` item can resolve to, or `undefined` for other items
+ */
+export function hashChoices(item: CronItem): CronItem[] | undefined {
+  if (item.type === 'hash') {
+    return Array.from({ length: item.to - item.from + 1 }, (_, index): CronItem => {
+      const value = item.from + index;
+      return { type: 'value', text: String(value), span: item.span, value };
+    });
+  }
+
+  if (item.type === 'step' && item.base.type === 'hash') {
+    const { base, step } = item;
+    return Array.from({ length: Math.min(step, base.to - base.from + 1) }, (_, index): CronItem => {
+      const text = `${base.from + index}-${base.to}`;
+      return {
+        ...item,
+        text: `${text}/${step}`,
+        base: { type: 'range', text, span: base.span, from: base.from + index, to: base.to },
+      };
+    });
+  }
+
+  return undefined;
+}
+
+/**
+ * Replaces the `H` items of a field with concrete values
+ */
+function resolveField(node: CronFieldNode, seed: string): CronFieldNode {
+  let changed = false;
+  const items = node.items.map((item, index): CronItem => {
+    const choices = hashChoices(item);
+    if (!choices) return item;
+
+    // Every H gets its own value: same seed, different field or position
+    changed = true;
+    return choices[hashString(`${seed}\u0000${node.name}\u0000${index}`) % choices.length] as CronItem;
+  });
+
+  return changed ? { ...node, text: items.map((item) => item.text).join(','), items } : node;
+}
+
+/**
+ * Resolves Jenkins `H` items to concrete values using `seed`
+ *
+ * @throws {TypeError} If the expression uses `H` and no seed is given
+ */
+export function resolveHashItems(ast: CronAst, seed: string | undefined): CronAst {
+  if (!hasHashItems(ast)) {
+    return ast;
+  }
+  if (seed === undefined) {
+    throw new TypeError('Expressions with "H" need the hashSeed option');
+  }
+  return { ...ast, fields: ast.fields.map((node) => resolveField(node, seed)) };
+}
+
+/**
+ * Resolve Jenkins `H` values to a concrete cron expression.
+ *
+ * Each `H` picks a value from a stable hash of the seed, so the same job
+ * always gets the same schedule, in any process or runtime.
+ *
+ * @example
+ * resolveJenkinsHash('H H(0-7) * * *', 'nightly-build');  // e.g. '37 4 * * *'
+ * resolveJenkinsHash('H/15 * * * *', 'nightly-build');    // e.g. '7-59/15 * * * *'
+ *
+ * @param expr - An expression in the Jenkins dialect
+ * @param seed - Seed for the hash, such as the job name
+ * @param options - Validation options (the dialect is always `jenkins`)
+ * @returns The expression with every `H` replaced by concrete values
+ * @throws {CronParseError} If the expression is not valid
+ */
+export function resolveJenkinsHash(expr: string, seed: string, options: IsCronOptions = {}): string {
+  const ast = resolveHashItems(parseCron(expr, { ...options, dialect: 'jenkins' }), seed);
+  return ast.fields.map((node) => node.text).join(' ');
+}
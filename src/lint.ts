@@ -0,0 +1,188 @@
+import { expansionBounds } from './calendar.js';
+import { getFieldSpecs } from './fields.js';
+import { analyzeCron } from './parse.js';
+import type {
+  CronAst,
+  CronFieldName,
+  CronFieldNode,
+  CronSpan,
+  CronStepItem,
+  CronValidationError,
+  IsCronOptions,
+} from './types.js';
+
+/**
+ * Rule that flags a suspicious but valid expression.
+ *
+ * - `wildcard-second` - seconds are `*` under a restricted minute (`* 30 9 * * *` runs 60 times)
+ * - `wildcard-minute` - minutes are `*` under a restricted hour, day or month (`* 9 * * *` runs 60 times)
+ * - `uneven-step` - a step does not divide the field's cycle (`*\/45` runs at :00 and :45)
+ * - `step-exceeds-range` - a step is larger than its range, so only the start matches (`0-10/20`)
+ * - `both-day-fields` - both day fields are restricted, so a day matching either one runs (`0 0 15 * MON`)
+ */
+export type CronLintRuleId =
+  | 'wildcard-second'
+  | 'wildcard-minute'
+  | 'uneven-step'
+  | 'step-exceeds-range'
+  | 'both-day-fields';
+
+/** How a rule is reported, as in ESLint */
+export type CronLintSeverity = 'off' | 'warn' | 'error';
+
+/** Options for `lintCron` */
+export interface LintCronOptions extends IsCronOptions {
+  /** Severity of each rule; rules that are not listed are `warn` */
+  rules?: Partial<Record<CronLintRuleId, CronLintSeverity>>;
+}
+
+/** A suspicious part of a valid expression */
+export interface CronLintWarning {
+  ruleId: CronLintRuleId;
+  severity: Exclude<CronLintSeverity, 'off'>;
+  /** Human-readable description of the problem */
+  message: string;
+  /** Field the warning is about (absent when it spans several fields) */
+  field?: CronFieldName;
+  /** Start offset of the flagged text in the original string */
+  start: number;
+  /** End offset (exclusive) of the flagged text in the original string */
+  end: number;
+}
+
+/** Result of `lintCron` */
+export interface CronLintResult {
+  /** `true` when the expression passes `isCron` */
+  valid: boolean;
+  /** Validation errors; an invalid expression is not linted */
+  errors: CronValidationError[];
+  /** Warnings from enabled rules, in source order */
+  warnings: CronLintWarning[];
+}
+
+/** Adds a warning for a rule unless it is off */
+type Report = (ruleId: CronLintRuleId, message: string, span: CronSpan, field?: CronFieldName) => void;
+
+// Fields whose values repeat in a fixed cycle, so a step should divide it
+const CYCLIC_FIELDS: readonly CronFieldName[] = ['second', 'minute', 'hour', 'month', 'dayOfWeek'];
+
+/**
+ * Returns the field node with the given name
+ */
+function getField(ast: CronAst, name: CronFieldName): CronFieldNode | undefined {
+  return ast.fields.find((node) => node.name === name);
+}
+
+/**
+ * Checks whether a field is `*` or `?` (matches everything)
+ */
+function isUnrestricted(node: CronFieldNode | undefined): boolean {
+  return !node || node.text === '*' || node.text === '?';
+}
+
+/**
+ * Flags `*` in a field whose larger units are restricted
+ */
+function checkWildcards(ast: CronAst, report: Report): void {
+  const second = getField(ast, 'second');
+  const minute = getField(ast, 'minute');
+
+  if (ast.seconds && second?.text === '*' && !isUnrestricted(minute)) {
+    const message = 'Second `*` runs every second of the minute; use `0` to run once';
+    report('wildcard-second', message, second.span, 'second');
+  }
+  const larger: CronFieldName[] = ['hour', 'dayOfMonth', 'month', 'dayOfWeek'];
+  if (minute?.text === '*' && larger.some((name) => !isUnrestricted(getField(ast, name)))) {
+    const message = 'Minute `*` runs every minute of each matching hour; use `0` to run once';
+    report('wildcard-minute', message, minute.span, 'minute');
+  }
+}
+
+/**
+ * Flags steps that match a single value or leave uneven gaps
+ */
+function checkStep(ast: CronAst, node: CronFieldNode, item: CronStepItem, report: Report): void {
+  const spec = getFieldSpecs(true).find((candidate) => candidate.name === node.name);
+  if (!spec || item.base.type === 'hash') return;
+
+  const { min, max, wrapAt } = expansionBounds(spec, ast.dialect);
+  const { base, step } = item;
+  const from = base.type === 'wildcard' ? min : base.type === 'value' ? base.value : base.from;
+  const to = base.type === 'range' ? base.to : base.type === 'value' ? max : wrapAt;
+  const span = from <= to ? to - from : wrapAt - from + 1 + to - min;
+
+  if (step > span) {
+    const message = `Step ${step} is larger than the ${spec.label} range of \`${base.text}\`, so only ${from} matches`;
+    report('step-exceeds-range', message, item.span, node.name);
+    return;
+  }
+
+  const cycle = wrapAt - min + 1;
+  if (base.type !== 'range' && CYCLIC_FIELDS.includes(node.name) && cycle % step !== 0) {
+    const message = `Step ${step} does not divide the ${cycle} values of ${spec.label}, so the gaps are uneven`;
+    report('uneven-step', message, item.span, node.name);
+  }
+}
+
+/**
+ * Flags both day fields being restricted, which runs on days matching either one
+ */
+function checkDays(ast: CronAst, report: Report): void {
+  const dayOfMonth = getField(ast, 'dayOfMonth');
+  const dayOfWeek = getField(ast, 'dayOfWeek');
+  // Vixie cron treats a field starting with `*` as unrestricted, even with a step
+  const isRestricted = (node: CronFieldNode | undefined): node is CronFieldNode =>
+    !!node && !node.text.startsWith('*') && !node.text.startsWith('?');
+  if (!isRestricted(dayOfMonth) || !isRestricted(dayOfWeek)) return;
+
+  const message =
+    `Runs on days matching day of month \`${dayOfMonth.text}\` or day of week \`${dayOfWeek.text}\`, ` +
+    'not only days matching both';
+  report('both-day-fields', message, { start: dayOfMonth.span.start, end: dayOfWeek.span.end });
+}
+
+/**
+ * Check a valid cron expression for likely mistakes.
+ *
+ * Rules can be set to `off`, `warn` (the default) or `error`, as in ESLint.
+ * Invalid expressions are only validated.
+ *
+ * @example
+ * lintCron('* 9 * * *').warnings;
+ * // [{ ruleId: 'wildcard-minute', severity: 'warn', field: 'minute', start: 0, end: 1, ... }]
+ *
+ * lintCron('0 0 15 * MON', { rules: { 'both-day-fields': 'off' } }).warnings; // []
+ *
+ * @param expr - The cron expression
+ * @param options - Validation options, plus rule severities
+ * @returns Validation errors and warnings
+ */
+export function lintCron(expr: string, options: LintCronOptions = {}): CronLintResult {
+  const { ast, errors } = analyzeCron(expr, options);
+  const warnings: CronLintWarning[] = [];
+  if (!ast) {
+    return { valid: false, errors, warnings };
+  }
+
+  const report: Report = (ruleId, message, { start, end }, field) => {
+    const severity = options.rules?.[ruleId] ?? 'warn';
+    if (severity === 'off') return;
+    const warning: CronLintWarning = { ruleId, severity, message, start, end };
+    if (field !== undefined) warning.field = field;
+    warnings.push(warning);
+  };
+
+  // Macros expand to sensible fields, so only written fields are checked
+  if (ast.macro === undefined) {
+    checkWildcards(ast, report);
+    for (const node of ast.fields) {
+      for (const item of node.items) {
+        if (item.type === 'step') checkStep(ast, node, item, report);
+      }
+    }
+    checkDays(ast, report);
+  }
+
+  warnings.sort((a, b) => a.start - b.start);
+  return { valid: true, errors, warnings };
+}
@@ -0,0 +1,187 @@
+import type { DAY_ALIASES, MONTH_ALIASES } from './fields.js';
+import type { ExtendedCronExpression, StandardCronExpression } from './types.js';
+
+// Type-level mirror of the parser's rules for standard expressions, used by `ValidCron`.
+// Each field lists the value spellings and step sizes the parser accepts.
+
+type Digit = '0' | '1' | '2' | '3' | '4' | '5' | '6' | '7' | '8' | '9';
+type NonZeroDigit = Exclude<Digit, '0'>;
+
+/** What one field accepts */
+interface FieldRule {
+  /** Numbers, including a single leading zero */
+  value: string;
+  /** Upper-case names, or `never` */
+  name: string;
+  /** Step sizes (1 up to the number of values) */
+  step: string;
+  /** Whether `?` is accepted */
+  any: boolean;
+  /** Number of the first name (JAN is 1, SUN is 0) */
+  firstName: 0 | 1;
+}
+
+// Minutes and seconds
+interface MinuteRule {
+  value: Digit | `0${Digit}` | `${'1' | '2' | '3' | '4' | '5'}${Digit}`;
+  name: never;
+  step: NonZeroDigit | `${'1' | '2' | '3' | '4' | '5'}${Digit}`;
+  any: false;
+  firstName: 0;
+}
+
+interface HourRule {
+  value: Digit | `${'0' | '1'}${Digit}` | `2${'0' | '1' | '2' | '3'}`;
+  name: never;
+  step: NonZeroDigit | `1${Digit}` | `2${'0' | '1' | '2' | '3'}`;
+  any: false;
+  firstName: 0;
+}
+
+interface DayOfMonthRule {
+  value: NonZeroDigit | `0${NonZeroDigit}` | `${'1' | '2'}${Digit}` | `3${'0' | '1'}`;
+  name: never;
+  step: NonZeroDigit | `${'1' | '2'}${Digit}` | `3${'0' | '1'}`;
+  any: true;
+  firstName: 0;
+}
+
+interface MonthRule {
+  value: NonZeroDigit | `0${NonZeroDigit}` | `1${'0' | '1' | '2'}`;
+  name: (typeof MONTH_ALIASES)[number];
+  step: NonZeroDigit | `1${'0' | '1' | '2'}`;
+  any: false;
+  firstName: 1;
+}
+
+interface DayOfWeekRule {
+  value: '0' | '1' | '2' | '3' | '4' | '5' | '6' | '7' | `0${'0' | '1' | '2' | '3' | '4' | '5' | '6' | '7'}`;
+  name: (typeof DAY_ALIASES)[number];
+  step: '1' | '2' | '3' | '4' | '5' | '6' | '7';
+  any: true;
+  firstName: 0;
+}
+
+type StandardLayout = [MinuteRule, HourRule, DayOfMonthRule, MonthRule, DayOfWeekRule];
+type SecondsLayout = [MinuteRule, ...StandardLayout];
+
+/** Splits on spaces, ignoring repeated, leading and trailing ones */
+type Words<S extends string> = S extends `${infer Word} ${infer Rest}`
+  ? Word extends ''
+    ? Words<Rest>
+    : [Word, ...Words<Rest>]
+  : S extends ''
+    ? []
+    : [S];
+
+/** Splits a field into list items, keeping empty ones */
+type Items<S extends string> = S extends `${infer Item},${infer Rest}` ? [Item, ...Items<Rest>] : [S];
+
+/** A tuple of length N, for comparing small numbers */
+type Tuple<N extends number, Acc extends unknown[] = []> = Acc['length'] extends N ? Acc : Tuple<N, [...Acc, unknown]>;
+
+/** Position of a name in a list, counting from `Acc['length']` */
+type IndexOf<List extends readonly string[], Name, Acc extends unknown[]> = List extends readonly [
+  infer Head,
+  ...infer Rest extends readonly string[],
+]
+  ? Head extends Name
+    ? Acc['length']
+    : IndexOf<Rest, Name, [...Acc, unknown]>
+  : never;
+
+type StripZero<S extends string> = S extends `0${infer Rest extends `${Digit}${string}`}` ? Rest : S;
+
+/** The number a value or name stands for */
+type NumberOf<S extends string, Rule extends FieldRule> = Uppercase<S> extends Rule['name']
+  ? IndexOf<
+      Rule['firstName'] extends 1 ? typeof MONTH_ALIASES : typeof DAY_ALIASES,
+      Uppercase<S>,
+      Rule['firstName'] extends 1 ? [unknown] : []
+    >
+  : StripZero<S> extends `${infer N extends number}`
+    ? N
+    : never;
+
+type IsValue<S extends string, Rule extends FieldRule> = S extends Rule['value']
+  ? true
+  : Uppercase<S> extends Rule['name']
+    ? true
+    : false;
+
+/** Ranges must not end before they start */
+type InOrder<From extends number, To extends number> = Tuple<To> extends [...Tuple<From>, ...unknown[]] ? true : false;
+
+type IsBase<S extends string, Rule extends FieldRule> = S extends '*'
+  ? true
+  : S extends `*-${infer To}`
+    ? To extends Rule['value']
+      ? true // `*-5` ranges from the start of the field
+      : false
+    : S extends `${infer From}-${infer To}`
+      ? [IsValue<From, Rule>, IsValue<To, Rule>] extends [true, true]
+        ? [Uppercase<From>, Uppercase<To>] extends [Rule['name'], Rule['name']]
+          ? true // Name ranges such as `FRI-MON` wrap around
+          : InOrder<NumberOf<From, Rule>, NumberOf<To, Rule>>
+        : false
+      : IsValue<S, Rule>;
+
+type IsItem<S extends string, Rule extends FieldRule> = S extends '?'
+  ? Rule['any']
+  : S extends `${infer Base}/${infer Step}`
+    ? Step extends Rule['step']
+      ? IsBase<Base, Rule>
+      : false
+    : IsBase<S, Rule>;
+
+type IsField<List extends string[], Rule extends FieldRule> = List extends [
+  infer Item extends string,
+  ...infer Rest extends string[],
+]
+  ? IsItem<Item, Rule> extends true
+    ? IsField<Rest, Rule>
+    : false
+  : true;
+
+type IsExpression<Fields extends string[], Layout extends FieldRule[]> = Fields extends [
+  infer Field extends string,
+  ...infer Rest extends string[],
+]
+  ? Layout extends [infer Rule extends FieldRule, ...infer RestLayout extends FieldRule[]]
+    ? IsField<Items<Field>, Rule> extends true
+      ? IsExpression<Rest, RestLayout>
+      : false
+    : false
+  : Layout extends []
+    ? true
+    : false;
+
+/**
+ * Checks a cron expression literal at compile time. Resolves to `T` when it is a
+ * valid standard expression (6 fields with `Seconds`), and to `never` otherwise.
+ *
+ * Checks the field count, the range of every value and step, the order of
+ * numeric ranges, and the English month and day names. Values that are only
+ * known at run time must be narrowed with `isCron` first: a
+ * `StandardCronExpression` is accepted, or an `ExtendedCronExpression` with
+ * `Seconds`.
+ *
+ * Macros, locale names, other dialects and `wrapRanges` are not covered; check
+ * those expressions with `isCron`.
+ *
+ * @example
+ * function scheduleJob<T extends string>(expr: ValidCron<T>) { ... }
+ *
+ * scheduleJob('0 9 * * MON');  // ok
+ * scheduleJob('0 25 * * *');   // type error
+ * if (isCron(input)) scheduleJob(input); // ok
+ */
+export type ValidCron<T extends string, Seconds extends boolean = false> = T extends (
+  Seconds extends true ? ExtendedCronExpression : StandardCronExpression
+)
+  ? T
+  : string extends T
+    ? never
+    : IsExpression<Words<T>, Seconds extends true ? SecondsLayout : StandardLayout> extends true
+      ? T
+      : never;
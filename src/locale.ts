@@ -0,0 +1,122 @@
+/** Unit of a repeating interval in a description */
+export type CronDescribeUnit = 'second' | 'minute' | 'hour' | 'day' | 'month' | 'year';
+
+/**
+ * Language pack used by `describeCron` and, for input aliases, by the parser.
+ *
+ * Template methods receive already formatted values (times, ordinals, names)
+ * and return sentence fragments, so each language controls its own word order.
+ */
+export interface CronLocale {
+  /** BCP 47 language tag, e.g. `de` */
+  code: string;
+
+  /** Month names, January first (12 entries) */
+  monthNames: readonly string[];
+
+  /** Day names, Sunday first (7 entries) */
+  dayNames: readonly string[];
+
+  /**
+   * Extra month aliases accepted as input, mapped to 1-12.
+   * Matched case-insensitively, in addition to JAN-DEC.
+   */
+  monthAliases?: Readonly<Record<string, number>>;
+
+  /**
+   * Extra day-of-week aliases accepted as input, mapped to 0-6 (0 = Sunday).
+   * Matched case-insensitively, in addition to SUN-SAT.
+   */
+  dayAliases?: Readonly<Record<string, number>>;
+
+  /** Formats a day of the month, e.g. `1st`, `1.`, `1日` */
+  ordinal(value: number): string;
+
+  /** Formats a year, e.g. `2024`, `2024年` */
+  year(value: number): string;
+
+  /** Formats a time of day; `second` is omitted when undefined */
+  time(hour: number, minute: number, second: number | undefined, hour12: boolean): string;
+
+  /** Joins list items, e.g. `a, b and c` */
+  list(parts: string[]): string;
+
+  /** Inclusive range of names or values, e.g. `Monday through Friday` */
+  range(from: string, to: string): string;
+
+  /**
+   * Builds the final sentence from the time and date fragments. `everyMonth` is
+   * `false` when the month field is restricted, so the date fragments include the months.
+   */
+  sentence(time: string[], date: string[], everyMonth: boolean): string;
+
+  /** `every minute`, `every 5 minutes` */
+  every(unit: CronDescribeUnit, interval: number): string;
+
+  /** `every 5 minutes from minute 0 through 30` */
+  everyFromThrough(unit: CronDescribeUnit, interval: number, from: string, to: string): string;
+
+  /** `every 10 minutes starting at minute 5` */
+  everyStartingAt(unit: CronDescribeUnit, interval: number, start: string): string;
+
+  /** `at minute 5`, `at minutes 0 and 30` */
+  atValues(unit: 'second' | 'minute', values: string, count: number): string;
+
+  /** `at 09:00 and 17:00` */
+  atTimes(times: string): string;
+
+  /** `every hour from 09:00 to 17:00` */
+  everyHourFromTo(from: string, to: string): string;
+
+  /** `every hour at minute 30` (second is 0 when not used) */
+  everyHourAt(minute: number, second: number): string;
+
+  /** `between 09:00 and 17:59` */
+  betweenTimes(from: string, to: string): string;
+
+  /** `during the 09:00 and 12:00 hours` */
+  duringHours(hours: string): string;
+
+  /** `on the 1st and 15th of the month` */
+  onDaysOfMonth(days: string): string;
+
+  /** `on Monday and Friday` */
+  onDaysOfWeek(days: string): string;
+
+  /** `in January and July` */
+  inMonths(months: string): string;
+
+  /** `in 2024 and 2025` */
+  inYears(years: string): string;
+
+  /** `on the last day of the month`, `3 days before the last day of the month` */
+  lastDayOfMonth(offset: number): string;
+
+  /** `on the weekday nearest the 15th of the month` */
+  nearestWeekday(day: string): string;
+
+  /** `on the last weekday of the month` */
+  lastWeekdayOfMonth: string;
+
+  /** `on the last Friday of the month` */
+  lastDayOfWeek(day: string): string;
+
+  /** `on the 3rd Friday of the month` */
+  nthDayOfWeek(day: string, nth: number): string;
+
+  /** Joins the day-of-month and day-of-week fragments when either may match */
+  or(first: string, second: string): string;
+
+  /** Joins two clauses that both apply */
+  and(first: string, second: string): string;
+
+  /** Full description of `@reboot`, e.g. `At startup` */
+  atReboot: string;
+}
+
+/**
+ * Pads a number to two digits
+ */
+export function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
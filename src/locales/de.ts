@@ -0,0 +1,107 @@
+import { pad, type CronDescribeUnit, type CronLocale } from '../locale.js';
+
+const UNIT_NAMES: Record<CronDescribeUnit, [string, string, string]> = {
+  second: ['jede Sekunde', 'Sekunden', 'Sekunde'],
+  minute: ['jede Minute', 'Minuten', 'Minute'],
+  hour: ['jede Stunde', 'Stunden', 'Stunde'],
+  day: ['jeden Tag', 'Tage', 'Tag'],
+  month: ['jeden Monat', 'Monate', 'Monat'],
+  year: ['jedes Jahr', 'Jahre', 'Jahr'],
+};
+
+const MONTH_NAMES = [
+  'Januar',
+  'Februar',
+  'März',
+  'April',
+  'Mai',
+  'Juni',
+  'Juli',
+  'August',
+  'September',
+  'Oktober',
+  'November',
+  'Dezember',
+];
+
+const DAY_NAMES = ['Sonntag', 'Montag', 'Dienstag', 'Mittwoch', 'Donnerstag', 'Freitag', 'Samstag'];
+
+const every = (unit: CronDescribeUnit, interval: number): string => {
+  const [single, plural] = UNIT_NAMES[unit];
+  return interval === 1 ? single : `alle ${interval} ${plural}`;
+};
+
+/** German */
+export const deLocale: CronLocale = {
+  code: 'de',
+  monthNames: MONTH_NAMES,
+  dayNames: DAY_NAMES,
+  monthAliases: {
+    ...Object.fromEntries(MONTH_NAMES.map((name, index) => [name, index + 1])),
+    MÄR: 3,
+    MRZ: 3,
+    MAI: 5,
+    OKT: 10,
+    DEZ: 12,
+  },
+  dayAliases: {
+    ...Object.fromEntries(DAY_NAMES.map((name, index) => [name, index])),
+    SO: 0,
+    MO: 1,
+    DI: 2,
+    MI: 3,
+    DO: 4,
+    FR: 5,
+    SA: 6,
+  },
+  ordinal: (value) => `${value}.`,
+  year: String,
+  time(hour, minute, second, hour12) {
+    const suffix = second === undefined ? '' : `:${pad(second)}`;
+    if (!hour12) return `${pad(hour)}:${pad(minute)}${suffix}`;
+    return `${hour % 12 || 12}:${pad(minute)}${suffix} ${hour < 12 ? 'AM' : 'PM'}`;
+  },
+  list(parts) {
+    if (parts.length <= 1) return parts.join('');
+    return `${parts.slice(0, -1).join(', ')} und ${parts[parts.length - 1]}`;
+  },
+  range: (from, to) => `${from} bis ${to}`,
+  sentence(time, date) {
+    const text = [...time, ...date].join(', ');
+    return text.charAt(0).toUpperCase() + text.slice(1);
+  },
+  every,
+  everyFromThrough(unit, interval, from, to) {
+    if (unit === 'day') return `${every(unit, interval)} vom ${from} bis zum ${to}`;
+    if (unit === 'month' || unit === 'year' || unit === 'hour') {
+      return `${every(unit, interval)} von ${from} bis ${to}`;
+    }
+    return `${every(unit, interval)} von ${UNIT_NAMES[unit][2]} ${from} bis ${to}`;
+  },
+  everyStartingAt(unit, interval, start) {
+    if (unit === 'day') return `${every(unit, interval)} ab dem ${start}`;
+    if (unit === 'month' || unit === 'year' || unit === 'hour') return `${every(unit, interval)} ab ${start}`;
+    return `${every(unit, interval)} ab ${UNIT_NAMES[unit][2]} ${start}`;
+  },
+  atValues: (unit, values, count) =>
+    count === 1 ? `in ${UNIT_NAMES[unit][2]} ${values}` : `in den ${UNIT_NAMES[unit][1]} ${values}`,
+  atTimes: (times) => `um ${times}`,
+  everyHourFromTo: (from, to) => `stündlich von ${from} bis ${to}`,
+  everyHourAt: (minute, second) =>
+    second === 0 ? `stündlich in Minute ${minute}` : `stündlich in Minute ${minute} und Sekunde ${second}`,
+  betweenTimes: (from, to) => `zwischen ${from} und ${to}`,
+  duringHours: (hours) => `in den Stunden ${hours}`,
+  onDaysOfMonth: (days) => `am ${days} des Monats`,
+  onDaysOfWeek: (days) => `am ${days}`,
+  inMonths: (months) => `im ${months}`,
+  inYears: (years) => `im Jahr ${years}`,
+  lastDayOfMonth: (offset) =>
+    offset === 0 ? 'am letzten Tag des Monats' : `${offset} ${offset === 1 ? 'Tag' : 'Tage'} vor dem Monatsletzten`,
+  nearestWeekday: (day) => `am nächstgelegenen Werktag zum ${day} des Monats`,
+  lastWeekdayOfMonth: 'am letzten Werktag des Monats',
+  lastDayOfWeek: (day) => `am letzten ${day} des Monats`,
+  nthDayOfWeek: (day, nth) => `am ${nth}. ${day} des Monats`,
+  or: (first, second) => `${first} oder ${second}`,
+  and: (first, second) => `${first} und ${second}`,
+  atReboot: 'Beim Systemstart',
+};
@@ -0,0 +1,93 @@
+import { pad, type CronDescribeUnit, type CronLocale } from '../locale.js';
+
+const UNIT_NAMES: Record<CronDescribeUnit, [string, string]> = {
+  second: ['second', 'seconds'],
+  minute: ['minute', 'minutes'],
+  hour: ['hour', 'hours'],
+  day: ['day', 'days'],
+  month: ['month', 'months'],
+  year: ['year', 'years'],
+};
+
+const ordinal = (value: number): string => {
+  const tens = value % 100;
+  if (tens >= 11 && tens <= 13) return `${value}th`;
+  return `${value}${['th', 'st', 'nd', 'rd'][value % 10] ?? 'th'}`;
+};
+
+const every = (unit: CronDescribeUnit, interval: number): string => {
+  const [singular, plural] = UNIT_NAMES[unit];
+  return interval === 1 ? `every ${singular}` : `every ${interval} ${plural}`;
+};
+
+/** English (default) */
+export const enLocale: CronLocale = {
+  code: 'en',
+  monthNames: [
+    'January',
+    'February',
+    'March',
+    'April',
+    'May',
+    'June',
+    'July',
+    'August',
+    'September',
+    'October',
+    'November',
+    'December',
+  ],
+  dayNames: ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'],
+  ordinal,
+  year: String,
+  time(hour, minute, second, hour12) {
+    const suffix = second === undefined ? '' : `:${pad(second)}`;
+    if (!hour12) return `${pad(hour)}:${pad(minute)}${suffix}`;
+    return `${hour % 12 || 12}:${pad(minute)}${suffix} ${hour < 12 ? 'AM' : 'PM'}`;
+  },
+  list(parts) {
+    if (parts.length <= 1) return parts.join('');
+    return `${parts.slice(0, -1).join(', ')} and ${parts[parts.length - 1]}`;
+  },
+  range: (from, to) => `${from} through ${to}`,
+  sentence(time, date) {
+    const text = [...time, ...date].join(', ');
+    return text.charAt(0).toUpperCase() + text.slice(1);
+  },
+  every,
+  everyFromThrough(unit, interval, from, to) {
+    if (unit === 'day') return `${every(unit, interval)} from the ${from} through the ${to}`;
+    if (unit === 'month' || unit === 'year' || unit === 'hour') {
+      return `${every(unit, interval)} from ${from} through ${to}`;
+    }
+    return `${every(unit, interval)} from ${unit} ${from} through ${to}`;
+  },
+  everyStartingAt(unit, interval, start) {
+    if (unit === 'day') return `${every(unit, interval)} starting on the ${start}`;
+    if (unit === 'month' || unit === 'year') return `${every(unit, interval)} starting in ${start}`;
+    if (unit === 'hour') return `${every(unit, interval)} starting at ${start}`;
+    return `${every(unit, interval)} starting at ${unit} ${start}`;
+  },
+  atValues: (unit, values, count) => `at ${UNIT_NAMES[unit][count === 1 ? 0 : 1]} ${values}`,
+  atTimes: (times) => `at ${times}`,
+  everyHourFromTo: (from, to) => `every hour from ${from} to ${to}`,
+  everyHourAt: (minute, second) =>
+    second === 0 ? `every hour at minute ${minute}` : `every hour at minute ${minute} and second ${second}`,
+  betweenTimes: (from, to) => `between ${from} and ${to}`,
+  duringHours: (hours) => `during the ${hours} hours`,
+  onDaysOfMonth: (days) => `on the ${days} of the month`,
+  onDaysOfWeek: (days) => `on ${days}`,
+  inMonths: (months) => `in ${months}`,
+  inYears: (years) => `in ${years}`,
+  lastDayOfMonth: (offset) =>
+    offset === 0
+      ? 'on the last day of the month'
+      : `${offset} ${offset === 1 ? 'day' : 'days'} before the last day of the month`,
+  nearestWeekday: (day) => `on the weekday nearest the ${day} of the month`,
+  lastWeekdayOfMonth: 'on the last weekday of the month',
+  lastDayOfWeek: (day) => `on the last ${day} of the month`,
+  nthDayOfWeek: (day, nth) => `on the ${ordinal(nth)} ${day} of the month`,
+  or: (first, second) => `${first} or ${second}`,
+  and: (first, second) => `${first} and ${second}`,
+  atReboot: 'At startup',
+};
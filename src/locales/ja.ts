@@ -0,0 +1,77 @@
+import { pad, type CronDescribeUnit, type CronLocale } from '../locale.js';
+
+const UNIT_NAMES: Record<CronDescribeUnit, [string, string]> = {
+  second: ['毎秒', '秒'],
+  minute: ['毎分', '分'],
+  hour: ['毎時', '時間'],
+  day: ['毎日', '日'],
+  month: ['毎月', 'か月'],
+  year: ['毎年', '年'],
+};
+
+const every = (unit: CronDescribeUnit, interval: number): string => {
+  const [single, counter] = UNIT_NAMES[unit];
+  return interval === 1 ? single : `${interval}${counter}ごと`;
+};
+
+// Minutes and seconds are passed as bare numbers; other units are already formatted
+const label = (unit: CronDescribeUnit, value: string): string =>
+  unit === 'second' ? `${value}秒` : unit === 'minute' ? `${value}分` : value;
+
+/** Japanese */
+export const jaLocale: CronLocale = {
+  code: 'ja',
+  monthNames: ['1月', '2月', '3月', '4月', '5月', '6月', '7月', '8月', '9月', '10月', '11月', '12月'],
+  dayNames: ['日曜日', '月曜日', '火曜日', '水曜日', '木曜日', '金曜日', '土曜日'],
+  dayAliases: {
+    日: 0,
+    月: 1,
+    火: 2,
+    水: 3,
+    木: 4,
+    金: 5,
+    土: 6,
+    日曜日: 0,
+    月曜日: 1,
+    火曜日: 2,
+    水曜日: 3,
+    木曜日: 4,
+    金曜日: 5,
+    土曜日: 6,
+  },
+  ordinal: (value) => `${value}日`,
+  year: (value) => `${value}年`,
+  time(hour, minute, second, hour12) {
+    const suffix = second === undefined ? '' : `:${pad(second)}`;
+    if (!hour12) return `${pad(hour)}:${pad(minute)}${suffix}`;
+    return `${hour < 12 ? '午前' : '午後'}${hour % 12 || 12}:${pad(minute)}${suffix}`;
+  },
+  list: (parts) => parts.join('と'),
+  range: (from, to) => `${from}から${to}まで`,
+  // Dates come before times in Japanese. Day fragments start with 毎月 (every month),
+  // which contradicts named months.
+  sentence: (time, date, everyMonth) =>
+    [...(everyMonth ? date : date.map((part) => part.replace(/^毎月/, ''))), ...time].join('、'),
+  every,
+  everyFromThrough: (unit, interval, from, to) =>
+    `${label(unit, from)}から${label(unit, to)}まで${every(unit, interval)}`,
+  everyStartingAt: (unit, interval, start) => `${label(unit, start)}から${every(unit, interval)}`,
+  atValues: (unit, values) => `${label(unit, values)}に`,
+  atTimes: (times) => `${times}に`,
+  everyHourFromTo: (from, to) => `${from}から${to}まで毎時`,
+  everyHourAt: (minute, second) => (second === 0 ? `毎時${minute}分` : `毎時${minute}分${second}秒`),
+  betweenTimes: (from, to) => `${from}から${to}の間`,
+  duringHours: (hours) => `${hours}の時間帯`,
+  onDaysOfMonth: (days) => `毎月${days}`,
+  onDaysOfWeek: (days) => days,
+  inMonths: (months) => months,
+  inYears: (years) => years,
+  lastDayOfMonth: (offset) => (offset === 0 ? '毎月末日' : `毎月末日の${offset}日前`),
+  nearestWeekday: (day) => `毎月${day}に最も近い平日`,
+  lastWeekdayOfMonth: '毎月最終平日',
+  lastDayOfWeek: (day) => `毎月最終${day}`,
+  nthDayOfWeek: (day, nth) => `毎月第${nth}${day}`,
+  or: (first, second) => `${first}または${second}`,
+  and: (first, second) => `${first}、${second}`,
+  atReboot: 'システム起動時',
+};
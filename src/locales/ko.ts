@@ -0,0 +1,80 @@
+import { pad, type CronDescribeUnit, type CronLocale } from '../locale.js';
+
+const UNIT_NAMES: Record<CronDescribeUnit, [string, string]> = {
+  second: ['매초', '초'],
+  minute: ['매분', '분'],
+  hour: ['매시간', '시간'],
+  day: ['매일', '일'],
+  month: ['매월', '개월'],
+  year: ['매년', '년'],
+};
+
+const every = (unit: CronDescribeUnit, interval: number): string => {
+  const [single, counter] = UNIT_NAMES[unit];
+  return interval === 1 ? single : `${interval}${counter}마다`;
+};
+
+// Minutes and seconds are passed as bare numbers; other units are already formatted
+const label = (unit: CronDescribeUnit, value: string): string =>
+  unit === 'second' ? `${value}초` : unit === 'minute' ? `${value}분` : value;
+
+/** Korean */
+export const koLocale: CronLocale = {
+  code: 'ko',
+  monthNames: ['1월', '2월', '3월', '4월', '5월', '6월', '7월', '8월', '9월', '10월', '11월', '12월'],
+  dayNames: ['일요일', '월요일', '화요일', '수요일', '목요일', '금요일', '토요일'],
+  dayAliases: {
+    일: 0,
+    월: 1,
+    화: 2,
+    수: 3,
+    목: 4,
+    금: 5,
+    토: 6,
+    일요일: 0,
+    월요일: 1,
+    화요일: 2,
+    수요일: 3,
+    목요일: 4,
+    금요일: 5,
+    토요일: 6,
+  },
+  ordinal: (value) => `${value}일`,
+  year: (value) => `${value}년`,
+  time(hour, minute, second, hour12) {
+    const suffix = second === undefined ? '' : `:${pad(second)}`;
+    if (!hour12) return `${pad(hour)}:${pad(minute)}${suffix}`;
+    return `${hour < 12 ? '오전' : '오후'} ${hour % 12 || 12}:${pad(minute)}${suffix}`;
+  },
+  list(parts) {
+    if (parts.length <= 1) return parts.join('');
+    return `${parts.slice(0, -1).join(', ')} 및 ${parts[parts.length - 1]}`;
+  },
+  range: (from, to) => `${from}부터 ${to}까지`,
+  // Dates come before times in Korean. Day fragments start with 매월 (every month),
+  // which contradicts named months.
+  sentence: (time, date, everyMonth) =>
+    [...(everyMonth ? date : date.map((part) => part.replace(/^매월 /, ''))), ...time].join(', '),
+  every,
+  everyFromThrough: (unit, interval, from, to) =>
+    `${label(unit, from)}부터 ${label(unit, to)}까지 ${every(unit, interval)}`,
+  everyStartingAt: (unit, interval, start) => `${label(unit, start)}부터 ${every(unit, interval)}`,
+  atValues: (unit, values) => `${label(unit, values)}에`,
+  atTimes: (times) => `${times}에`,
+  everyHourFromTo: (from, to) => `${from}부터 ${to}까지 매시간`,
+  everyHourAt: (minute, second) => (second === 0 ? `매시간 ${minute}분에` : `매시간 ${minute}분 ${second}초에`),
+  betweenTimes: (from, to) => `${from}에서 ${to} 사이`,
+  duringHours: (hours) => `${hours} 시간대에`,
+  onDaysOfMonth: (days) => `매월 ${days}`,
+  onDaysOfWeek: (days) => days,
+  inMonths: (months) => months,
+  inYears: (years) => years,
+  lastDayOfMonth: (offset) => (offset === 0 ? '매월 마지막 날' : `매월 마지막 날 ${offset}일 전`),
+  nearestWeekday: (day) => `매월 ${day}에서 가장 가까운 평일`,
+  lastWeekdayOfMonth: '매월 마지막 평일',
+  lastDayOfWeek: (day) => `매월 마지막 ${day}`,
+  nthDayOfWeek: (day, nth) => `매월 ${nth}번째 ${day}`,
+  or: (first, second) => `${first} 또는 ${second}`,
+  and: (first, second) => `${first} 및 ${second}`,
+  atReboot: '시스템 시작 시',
+};
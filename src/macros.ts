@@ -0,0 +1,51 @@
+import type { CronMacro } from './types.js';
+
+/**
+ * Standard 5-field equivalents of the predefined macros.
+ * `@reboot` runs once at startup and has no time-based equivalent.
+ */
+export const CRON_MACROS: Readonly<Record<CronMacro, string | null>> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+  '@reboot': null,
+};
+
+/**
+ * Checks whether a string is one of the predefined macros (case-sensitive, like crontab)
+ */
+export function isCronMacro(value: string): value is CronMacro {
+  return Object.prototype.hasOwnProperty.call(CRON_MACROS, value);
+}
+
+/**
+ * Expand a predefined macro to its field-based equivalent.
+ *
+ * Values that are not macros are returned unchanged, so any expression
+ * can be passed through.
+ *
+ * @example
+ * expandCronMacro('@daily');                     // '0 0 * * *'
+ * expandCronMacro('@daily', { seconds: true });  // '0 0 0 * * *'
+ * expandCronMacro('@reboot');                    // null
+ *
+ * @param value - A macro such as `@daily`, or any other expression
+ * @param options - `seconds: true` for a 6-field equivalent
+ * @returns The equivalent expression, or `null` for `@reboot` (not time-based)
+ */
+export function expandCronMacro(value: string, options: { seconds?: boolean } = {}): string | null {
+  const name = value.trim();
+  if (!isCronMacro(name)) {
+    return value;
+  }
+
+  const expansion = CRON_MACROS[name];
+  if (expansion === null) {
+    return null;
+  }
+  return options.seconds ? `0 ${expansion}` : expansion;
+}
@@ -0,0 +1,224 @@
+import { expandField, expansionBounds } from './calendar.js';
+import { DAY_ALIASES, EVENTBRIDGE_YEAR_FIELD, getFieldSpecs, MONTH_ALIASES, YEAR_FIELD, type FieldSpec } from './fields.js';
+import { parseCron } from './parse.js';
+import type { CronAst, CronDialect, CronFieldNode, CronItem, IsCronOptions } from './types.js';
+
+/** Options for normalization */
+export interface NormalizeCronOptions extends IsCronOptions {
+  /**
+   * How to write months and days of the week.
+   * - `numeric` - as numbers (`jan` becomes `1`, `mon` becomes `1`)
+   * - `names` - as upper-case English names (`1` becomes `JAN` or `MON`);
+   *   numbers are kept when `alias` is false
+   * @default 'numeric'
+   */
+  aliases?: 'numeric' | 'names';
+}
+
+/**
+ * Whether a field may be written with `*`. Vixie cron checks either day field
+ * when both are restricted, so a day field must keep its restricted or
+ * unrestricted form while the other one is restricted.
+ */
+type WildcardRule = 'allow' | 'never' | 'always';
+
+/** How the values of one field are written */
+interface FieldFormat {
+  min: number;
+  /** Last value before the field starts over (6 for days of the week) */
+  max: number;
+  /** Added to numbers when writing them (1 for Quartz days of the week) */
+  shift: number;
+  /** Names to write instead of numbers, indexed from `min` */
+  names: readonly string[] | undefined;
+  /** Steps after a single value run to the field maximum, which is 7 (Sunday) for days of the week */
+  openSteps: boolean;
+}
+
+/**
+ * Checks whether a field's text restricts it (does not start with `*` or `?`)
+ */
+function isRestricted(node: CronFieldNode | undefined): boolean {
+  return node !== undefined && !node.text.startsWith('*') && !node.text.startsWith('?');
+}
+
+/**
+ * Checks whether an item is covered by the field's value set, rather than kept as written
+ */
+function isPlainItem(item: CronItem, dialect: CronDialect): boolean {
+  switch (item.type) {
+    case 'wildcard':
+    case 'value':
+    case 'range':
+      return true;
+    case 'any':
+      // `?` only means something different from `*` in Quartz and EventBridge
+      return dialect !== 'quartz' && dialect !== 'eventbridge';
+    case 'step':
+      return item.base.type !== 'hash';
+    default:
+      return false;
+  }
+}
+
+/**
+ * Writes a single value of a field
+ */
+function formatValue(value: number, format: FieldFormat): string {
+  return format.names?.[value - format.min] ?? String(value + format.shift);
+}
+
+/**
+ * Writes Jenkins `H` and Quartz `L`, `W` and `#` items, which have no value set of their own
+ */
+function formatSpecialItem(item: CronItem, format: FieldFormat): string {
+  switch (item.type) {
+    case 'lastDay':
+      return item.offset === 0 ? 'L' : `L-${item.offset}`;
+    case 'nearestWeekday':
+      return `${item.day}W`;
+    case 'lastWeekday':
+      return 'LW';
+    case 'lastDayOfWeek':
+      return `${item.day + format.shift}L`;
+    case 'nthDayOfWeek':
+      return `${item.day + format.shift}#${item.nth}`;
+    case 'any':
+      return '?';
+    default:
+      return item.text;
+  }
+}
+
+/**
+ * Writes a sorted set of values in its shortest canonical form:
+ * `*`, a step (`*\/15`, `5-45/10`), or a list of values and ranges of 3 or more
+ */
+function formatValues(values: number[], format: FieldFormat, wildcard: WildcardRule): string {
+  const { min, max } = format;
+  const first = values[0] as number;
+  const last = values[values.length - 1] as number;
+  const value = (num: number) => formatValue(num, format);
+
+  if (values.length === max - min + 1 && wildcard !== 'never') {
+    return '*';
+  }
+  if (values.length === 1 && wildcard === 'always') {
+    return `*/${max - min + 1}`;
+  }
+
+  // Evenly spaced values become a step
+  const step = values.length > 1 ? (values[1] as number) - first : 0;
+  const evenlySpaced = step > 1 && values.every((num, index) => num === first + index * step);
+  const toEnd = last + step > max;
+  if (evenlySpaced && first === min && toEnd && wildcard !== 'never') {
+    return `*/${step}`;
+  }
+  if (evenlySpaced && (values.length >= 3 || (first === min && toEnd))) {
+    return toEnd && format.openSteps ? `${value(first)}/${step}` : `${value(first)}-${value(last)}/${step}`;
+  }
+
+  // Otherwise runs of consecutive values become ranges
+  const parts: string[] = [];
+  let start = 0;
+  for (let index = 1; index <= values.length; index++) {
+    if (index < values.length && values[index] === (values[index - 1] as number) + 1) continue;
+    const from = values[start] as number;
+    const to = values[index - 1] as number;
+    if (to - from >= 2) {
+      parts.push(`${value(from)}-${value(to)}`);
+    } else {
+      for (let num = from; num <= to; num++) parts.push(value(num));
+    }
+    start = index;
+  }
+  return parts.join(',');
+}
+
+/**
+ * Writes one field in canonical form
+ */
+function normalizeField(
+  node: CronFieldNode,
+  spec: FieldSpec,
+  ast: CronAst,
+  names: boolean,
+  wildcard: WildcardRule
+): string {
+  const dayOfWeek = spec.name === 'dayOfWeek';
+  let fieldNames: readonly string[] | undefined;
+  if (names && spec.name === 'month') fieldNames = MONTH_ALIASES;
+  if (names && dayOfWeek) fieldNames = DAY_ALIASES;
+  const quartzDays = dayOfWeek && (ast.dialect === 'quartz' || ast.dialect === 'eventbridge');
+  const bounds = expansionBounds(spec, ast.dialect);
+  const format: FieldFormat = {
+    min: bounds.min,
+    max: bounds.wrapAt,
+    shift: quartzDays ? 1 : 0,
+    names: fieldNames,
+    openSteps: !dayOfWeek,
+  };
+
+  const plain = node.items.filter((item) => isPlainItem(item, ast.dialect));
+  const special = node.items.filter((item) => !isPlainItem(item, ast.dialect));
+  const parts = [...new Set(special.map((item) => formatSpecialItem(item, format)))];
+
+  if (plain.length > 0) {
+    const values = expandField({ ...node, items: plain }, bounds.min, bounds.max, bounds.wrapAt);
+    const text = formatValues(values, format, wildcard);
+    if (text === '*') return text;
+    parts.unshift(text);
+  }
+  return parts.join(',');
+}
+
+/**
+ * Rewrite a cron expression in a canonical form, so that equivalent
+ * expressions can be compared or stored as the same string.
+ *
+ * - Names are written as numbers, or as upper-case English names with `aliases: 'names'`
+ * - Leading zeros are removed and day of week 7 becomes 0
+ * - List items are sorted and merged, ranges of the whole field become `*`,
+ *   and evenly spaced values become a step (`0,15,30,45` becomes `*\/15`)
+ * - Macros are expanded (except `@reboot`), and a Quartz year of `*` is dropped
+ *
+ * The result is valid under the same options and runs at exactly the same times.
+ *
+ * @example
+ * normalizeCron('00 00 * jan mon,tue,wed,7');
+ * // '0 0 * 1 0-3'
+ *
+ * normalizeCron('0 0 * 1 1', { aliases: 'names' });
+ * // '0 0 * JAN MON'
+ *
+ * @param expr - The cron expression
+ * @param options - Validation and formatting options
+ * @returns The canonical expression
+ * @throws {CronParseError} If the expression is not valid
+ */
+export function normalizeCron(expr: string, options: NormalizeCronOptions = {}): string {
+  const ast = parseCron(expr, options);
+  if (ast.trigger === 'reboot') return '@reboot';
+  if (ast.rate) return `rate(${ast.rate.value} ${ast.rate.unit}${ast.rate.value === 1 ? '' : 's'})`;
+
+  const names = options.aliases === 'names' && options.alias !== false;
+  const specs = [...getFieldSpecs(true), ast.dialect === 'eventbridge' ? EVENTBRIDGE_YEAR_FIELD : YEAR_FIELD];
+  const nodes = new Map(ast.fields.map((node) => [node.name, node]));
+
+  const fields = ast.fields.map((node) => {
+    const spec = specs.find((candidate) => candidate.name === node.name) as FieldSpec;
+    let wildcard: WildcardRule = 'allow';
+    const dayField = node.name === 'dayOfMonth' || node.name === 'dayOfWeek';
+    if (dayField && (ast.dialect === 'standard' || ast.dialect === 'jenkins')) {
+      const other = nodes.get(node.name === 'dayOfMonth' ? 'dayOfWeek' : 'dayOfMonth');
+      if (isRestricted(other)) wildcard = isRestricted(node) ? 'never' : 'always';
+    }
+    return normalizeField(node, spec, ast, names, wildcard);
+  });
+
+  if (ast.dialect === 'quartz' && fields.length === 7 && fields[6] === '*') {
+    fields.pop();
+  }
+  const text = fields.join(' ');
+  return ast.dialect === 'eventbridge' ? `cron(${text})` : text;
+}
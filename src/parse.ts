@@ -0,0 +1,827 @@
+import { checkImpossibleSchedule } from './feasibility.js';
+import { getEventBridgeFieldSpecs, getFieldSpecs, getQuartzFieldSpecs, type FieldSpec } from './fields.js';
+import type { CronLocale } from './locale.js';
+import { CRON_MACROS, isCronMacro } from './macros.js';
+import type {
+  CronAst,
+  CronDialect,
+  CronErrorCode,
+  CronFieldNode,
+  CronItem,
+  CronRate,
+  CronSpan,
+  CronStepItem,
+  CronValidationError,
+  IsCronOptions,
+} from './types.js';
+
+/** A whitespace-separated field together with its offset in the source */
+interface SourceField {
+  text: string;
+  start: number;
+}
+
+/** Problem with a single list item, before source positions are attached */
+interface PartError {
+  code: CronErrorCode;
+  message: string;
+}
+
+/** Bounds and step of a list item, before it becomes a tree node */
+interface PartBounds {
+  start: number | '*' | '?';
+  end: number | undefined;
+  step: string | undefined;
+  /** Both range bounds are names, as in `FRI-MON` */
+  named?: boolean;
+}
+
+/** Result of parsing a whole expression */
+export interface CronAnalysis {
+  /** The parsed tree, or `null` when there are errors */
+  ast: CronAst | null;
+  errors: CronValidationError[];
+}
+
+// Generic shape of a numeric list item
+const RANGE_PATTERN = /^(\*|\?|\d+)(-(\d+))?(\/(\d+))?$/;
+// Names in any script, so locale packs can add aliases like `MÄR` or `月`.
+// Either bound may be a number instead (`1-FRI`), and ranges may have a step (`JAN-JUN/2`).
+const ALIAS_PATTERN = /^(\p{L}+|\d+)(-(\p{L}+|\d+))?(\/(\d+))?$/u;
+const NAME_PATTERN = /\p{L}/u;
+
+// Quartz calendar items, matched against the upper-cased item
+const LAST_DAY_PATTERN = /^L(-(\d+))?$/;
+const NEAREST_WEEKDAY_PATTERN = /^(\d+)W$/;
+const LAST_DAY_OF_WEEK_PATTERN = /^(\d+|\p{L}+?)L$/u;
+const NTH_DAY_OF_WEEK_PATTERN = /^(\d+|\p{L}+)#(\d+)$/u;
+
+// Jenkins hashed items: `H`, `H(0-29)`, `H/15`, `H(0-29)/10`
+const HASH_PATTERN = /^H(\((\d+)-(\d+)\))?(\/(\d+))?$/;
+
+// EventBridge wraps expressions as `cron(...)` or `rate(...)`
+const EVENTBRIDGE_PATTERN = /^(\s*)(cron|rate)\((.*)\)\s*$/s;
+
+const RATE_UNITS = new Map<string, CronRate['unit']>([
+  ['minute', 'minute'],
+  ['minutes', 'minute'],
+  ['hour', 'hour'],
+  ['hours', 'hour'],
+  ['day', 'day'],
+  ['days', 'day'],
+]);
+
+const CALENDAR_ITEM_TYPES = new Set<CronItem['type']>([
+  'lastDay',
+  'nearestWeekday',
+  'lastWeekday',
+  'lastDayOfWeek',
+  'nthDayOfWeek',
+]);
+
+/** Upper-cased alias names of one field, mapped to their values */
+type AliasTable = ReadonlyMap<string, number>;
+
+const englishAliases = new Map<FieldSpec, AliasTable>();
+
+/**
+ * Error thrown by `parseCron` for invalid expressions
+ */
+export class CronParseError extends Error {
+  /** Every problem found, in source order */
+  readonly errors: CronValidationError[];
+
+  constructor(errors: CronValidationError[]) {
+    super(errors[0]?.message ?? 'Invalid cron expression');
+    this.name = 'CronParseError';
+    this.errors = errors;
+  }
+}
+
+/**
+ * Splits an expression into whitespace-separated fields, keeping offsets
+ */
+function splitFields(value: string, offset = 0): SourceField[] {
+  const fields: SourceField[] = [];
+  for (const match of value.matchAll(/\S+/g)) {
+    fields.push({ text: match[0], start: offset + (match.index ?? 0) });
+  }
+  return fields;
+}
+
+/**
+ * Builds the alias table of a field from its English names and the locale's extra names
+ */
+function getAliasTable(spec: FieldSpec, locale: CronLocale | undefined): AliasTable | undefined {
+  if (!spec.aliases) return undefined;
+
+  let table = englishAliases.get(spec);
+  if (!table) {
+    table = new Map(spec.aliases.map((name, index) => [name, index + spec.min]));
+    englishAliases.set(spec, table);
+  }
+
+  let extra: Readonly<Record<string, number>> | undefined;
+  if (spec.name === 'month') extra = locale?.monthAliases;
+  if (spec.name === 'dayOfWeek') extra = locale?.dayAliases;
+  if (!extra) return table;
+
+  // Locale day aliases count from Sunday = 0, like the standard field
+  const shift = spec.name === 'dayOfWeek' ? spec.min : 0;
+  const merged = new Map(table);
+  for (const [name, value] of Object.entries(extra)) {
+    merged.set(name.toUpperCase(), value + shift);
+  }
+  return merged;
+}
+
+/**
+ * Explains why a list item failed the field pattern
+ */
+function explainPatternFailure(part: string, spec: FieldSpec, allowAlias: boolean): PartError {
+  const { label, min, max } = spec;
+
+  if (HASH_PATTERN.test(part)) {
+    return { code: 'SYNTAX', message: `Hashed value "${part}" in ${label} needs the jenkins dialect` };
+  }
+
+  if (NAME_PATTERN.test(part) && ALIAS_PATTERN.test(part)) {
+    if (!spec.aliases) {
+      return { code: 'SYNTAX', message: `The ${label} field does not accept names ("${part}")` };
+    }
+    if (!allowAlias) {
+      return { code: 'UNKNOWN_ALIAS', message: `Aliases are disabled ("${part}" in ${label})` };
+    }
+    return { code: 'UNKNOWN_ALIAS', message: `Unknown ${label} alias "${part}"` };
+  }
+
+  const rangeMatch = part.match(RANGE_PATTERN);
+  if (rangeMatch) {
+    const start = rangeMatch[1];
+    const end = rangeMatch[3];
+    const step = rangeMatch[5];
+
+    if (start === '?' && !spec.pattern.test('?')) {
+      return { code: 'SYNTAX', message: `"?" is not allowed in the ${label} field` };
+    }
+    for (const bound of [start, end]) {
+      if (bound === undefined || bound === '*' || bound === '?') continue;
+      const num = parseInt(bound, 10);
+      if (num < min || num > max) {
+        return { code: 'OUT_OF_RANGE', message: `Value ${bound} is out of range for ${label} (${min}-${max})` };
+      }
+    }
+    if (step !== undefined && parseInt(step, 10) < 1) {
+      return { code: 'INVALID_STEP', message: `Step must be at least 1 in ${label} ("${part}")` };
+    }
+  } else {
+    const slash = part.indexOf('/');
+    if (slash !== -1 && RANGE_PATTERN.test(part.slice(0, slash))) {
+      return { code: 'INVALID_STEP', message: `Step must be a positive integer in ${label} ("${part}")` };
+    }
+  }
+
+  return { code: 'SYNTAX', message: `Invalid ${label} value "${part}"` };
+}
+
+/**
+ * Reads the bounds and step of a numeric item such as `*`, `5` or `1-5/2`
+ */
+function parseNumericBounds(part: string, spec: FieldSpec, allowAlias: boolean): PartBounds | PartError {
+  const { label, min, max } = spec;
+
+  // Check standard pattern
+  if (!spec.pattern.test(part)) {
+    return explainPatternFailure(part, spec, allowAlias);
+  }
+
+  // Validate range boundaries
+  const rangeMatch = part.match(RANGE_PATTERN);
+  if (!rangeMatch) {
+    return { code: 'SYNTAX', message: `Invalid ${label} value "${part}"` };
+  }
+
+  const start = rangeMatch[1] as string;
+  const end: string | undefined = rangeMatch[3];
+  const step: string | undefined = rangeMatch[5];
+
+  if (start === '?' || (start === '*' && end === undefined)) {
+    if (end !== undefined) {
+      return { code: 'SYNTAX', message: `A range cannot start with "${start}" in ${label} ("${part}")` };
+    }
+    return { start, end: undefined, step };
+  }
+
+  // `*-5` has always been accepted, as a range from the start of the field
+  const bounds: number[] = start === '*' ? [min] : [];
+  for (const bound of [start, end]) {
+    if (bound === undefined || bound === '*') continue;
+    const num = parseInt(bound, 10);
+    if (num < min || num > max) {
+      return { code: 'OUT_OF_RANGE', message: `Value ${bound} is out of range for ${label} (${min}-${max})` };
+    }
+    bounds.push(num);
+  }
+  return { start: bounds[0] as number, end: bounds[1], step };
+}
+
+/**
+ * Reads the bounds and step of an item with names, such as `MON-FRI`, `1-FRI` or `JAN-JUN/2`
+ */
+function parseAliasBounds(part: string, spec: FieldSpec, aliases: AliasTable): PartBounds | PartError {
+  const { label, min, max } = spec;
+
+  const aliasMatch = part.toUpperCase().match(ALIAS_PATTERN);
+  if (!aliasMatch) {
+    return explainPatternFailure(part, spec, true);
+  }
+
+  const bounds: number[] = [];
+  for (const bound of [aliasMatch[1], aliasMatch[3]]) {
+    if (bound === undefined) continue;
+    if (/^\d+$/.test(bound)) {
+      const num = parseInt(bound, 10);
+      if (num < min || num > max) {
+        return { code: 'OUT_OF_RANGE', message: `Value ${bound} is out of range for ${label} (${min}-${max})` };
+      }
+      bounds.push(num);
+      continue;
+    }
+    const value = aliases.get(bound);
+    if (value === undefined) {
+      return { code: 'UNKNOWN_ALIAS', message: `Unknown ${label} alias "${bound}"` };
+    }
+    bounds.push(value);
+  }
+  const named = aliasMatch[3] !== undefined && !/\d/.test(`${aliasMatch[1]}${aliasMatch[3]}`);
+  return { start: bounds[0] as number, end: bounds[1], step: aliasMatch[5], named };
+}
+
+/**
+ * Parses a single comma-separated item of a cron field
+ */
+function parsePart(
+  part: string,
+  offset: number,
+  spec: FieldSpec,
+  aliases: AliasTable | undefined,
+  wrapRanges: boolean
+): CronItem | PartError {
+  const { label, max } = spec;
+  const span = { start: offset, end: offset + part.length };
+
+  if (part === '') {
+    return { code: 'SYNTAX', message: `Empty list item in ${label}` };
+  }
+
+  const bounds = aliases && NAME_PATTERN.test(part)
+    ? parseAliasBounds(part, spec, aliases)
+    : parseNumericBounds(part, spec, aliases !== undefined);
+  if ('code' in bounds) {
+    return bounds;
+  }
+
+  const { start, end, step } = bounds;
+  if (start === '?') {
+    return { type: 'any', text: part, span };
+  }
+
+  const baseText = step === undefined ? part : part.slice(0, part.indexOf('/'));
+  const baseSpan = { start: offset, end: offset + baseText.length };
+
+  // Ranges that end before they start only make sense for the cyclic fields.
+  // Name ranges such as `FRI-MON` have always been accepted, and always wrap.
+  const reversed = start !== '*' && end !== undefined && end < start && !bounds.named;
+  if (reversed && (!wrapRanges || spec.name === 'year')) {
+    const hint = spec.name === 'year' ? '' : ' (enable wrapRanges to wrap around)';
+    return { code: 'REVERSED_RANGE', message: `Range ${baseText} in ${label} ends before it starts${hint}` };
+  }
+
+  let base: CronStepItem['base'];
+  if (start === '*') {
+    base = { type: 'wildcard', text: baseText, span: baseSpan };
+  } else if (end === undefined) {
+    base = { type: 'value', text: baseText, span: baseSpan, value: start };
+  } else {
+    base = { type: 'range', text: baseText, span: baseSpan, from: start, to: end };
+  }
+
+  if (step === undefined) {
+    return base;
+  }
+
+  // Validate step value
+  const stepNum = parseInt(step, 10);
+  if (stepNum < 1 || stepNum > max) {
+    return { code: 'INVALID_STEP', message: `Step ${step} is out of range for ${label} (1-${max})` };
+  }
+
+  return { type: 'step', text: part, span, base, step: stepNum };
+}
+
+/**
+ * Resolves the day of a Quartz `L` or `#` item, given as a number or a name
+ */
+function resolveDayOfWeek(token: string, spec: FieldSpec, aliases: AliasTable | undefined): number | PartError {
+  const { label, min, max } = spec;
+
+  if (/^\d+$/.test(token)) {
+    const value = parseInt(token, 10);
+    if (value < min || value > max) {
+      return { code: 'OUT_OF_RANGE', message: `Value ${token} is out of range for ${label} (${min}-${max})` };
+    }
+    return value;
+  }
+
+  if (!aliases) {
+    return { code: 'UNKNOWN_ALIAS', message: `Aliases are disabled ("${token}" in ${label})` };
+  }
+  return aliases.get(token) ?? { code: 'UNKNOWN_ALIAS', message: `Unknown ${label} alias "${token}"` };
+}
+
+/**
+ * Parses Quartz `L`, `W` and `#` items, or returns `undefined` for any other item
+ */
+function parseCalendarPart(
+  part: string,
+  offset: number,
+  spec: FieldSpec,
+  aliases: AliasTable | undefined
+): CronItem | PartError | undefined {
+  const { label } = spec;
+  const span = { start: offset, end: offset + part.length };
+  const upper = part.toUpperCase();
+
+  if (spec.name === 'dayOfMonth') {
+    if (upper === 'LW') {
+      return { type: 'lastWeekday', text: part, span };
+    }
+
+    const lastMatch = upper.match(LAST_DAY_PATTERN);
+    if (lastMatch) {
+      const days = lastMatch[2];
+      const lastOffset = days === undefined ? 0 : parseInt(days, 10);
+      if (days !== undefined && (lastOffset < 1 || lastOffset > 30)) {
+        return { code: 'OUT_OF_RANGE', message: `Offset ${days} from the last day is out of range (1-30)` };
+      }
+      return { type: 'lastDay', text: part, span, offset: lastOffset };
+    }
+
+    const weekdayMatch = upper.match(NEAREST_WEEKDAY_PATTERN);
+    if (weekdayMatch) {
+      const day = parseInt(weekdayMatch[1] as string, 10);
+      if (day < spec.min || day > spec.max) {
+        return {
+          code: 'OUT_OF_RANGE',
+          message: `Value ${weekdayMatch[1]} is out of range for ${label} (${spec.min}-${spec.max})`,
+        };
+      }
+      return { type: 'nearestWeekday', text: part, span, day };
+    }
+  }
+
+  if (spec.name === 'dayOfWeek') {
+    // A lone `L` is the last day of the week (Saturday)
+    if (upper === 'L') {
+      return { type: 'value', text: part, span, value: spec.max };
+    }
+
+    const nthMatch = upper.match(NTH_DAY_OF_WEEK_PATTERN);
+    if (nthMatch) {
+      const day = resolveDayOfWeek(nthMatch[1] as string, spec, aliases);
+      if (typeof day !== 'number') return day;
+      const nth = parseInt(nthMatch[2] as string, 10);
+      if (nth < 1 || nth > 5) {
+        return { code: 'OUT_OF_RANGE', message: `Occurrence ${nthMatch[2]} is out of range for ${label} (1-5)` };
+      }
+      return { type: 'nthDayOfWeek', text: part, span, day, nth };
+    }
+
+    const lastMatch = upper.match(LAST_DAY_OF_WEEK_PATTERN);
+    if (lastMatch) {
+      const day = resolveDayOfWeek(lastMatch[1] as string, spec, aliases);
+      if (typeof day !== 'number') return day;
+      return { type: 'lastDayOfWeek', text: part, span, day };
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Returns the values a Jenkins `H` without a range picks from. Like Jenkins,
+ * days of the month stop at 28 so that every month has them, and Sunday is only 0.
+ */
+function hashRange(spec: FieldSpec): [number, number] {
+  if (spec.name === 'dayOfMonth') return [spec.min, 28];
+  if (spec.name === 'dayOfWeek') return [spec.min, 6];
+  return [spec.min, spec.max];
+}
+
+/**
+ * Parses Jenkins `H` items, or returns `undefined` for any other item
+ */
+function parseHashPart(part: string, offset: number, spec: FieldSpec): CronItem | PartError | undefined {
+  const hashMatch = part.match(HASH_PATTERN);
+  if (!hashMatch) return undefined;
+
+  const { label, min, max } = spec;
+  const span = { start: offset, end: offset + part.length };
+  const start = hashMatch[2];
+  const end = hashMatch[3];
+  const step = hashMatch[5];
+
+  let [from, to] = hashRange(spec);
+  if (start !== undefined && end !== undefined) {
+    from = parseInt(start, 10);
+    to = parseInt(end, 10);
+    for (const bound of [start, end]) {
+      const num = parseInt(bound, 10);
+      if (num < min || num > max) {
+        return { code: 'OUT_OF_RANGE', message: `Value ${bound} is out of range for ${label} (${min}-${max})` };
+      }
+    }
+    if (to < from) {
+      return { code: 'REVERSED_RANGE', message: `Range ${start}-${end} in ${label} ends before it starts` };
+    }
+  }
+
+  const baseText = step === undefined ? part : part.slice(0, part.indexOf('/'));
+  const baseSpan = { start: offset, end: offset + baseText.length };
+  const base = { type: 'hash' as const, text: baseText, span: baseSpan, from, to };
+  if (step === undefined) {
+    return base;
+  }
+
+  const stepNum = parseInt(step, 10);
+  if (stepNum < 1 || stepNum > max) {
+    return { code: 'INVALID_STEP', message: `Step ${step} is out of range for ${label} (1-${max})` };
+  }
+  return { type: 'step', text: part, span, base, step: stepNum };
+}
+
+/**
+ * Checks whether an item is a Quartz `L`, `W` or `#` item, which must stand alone
+ */
+function isCalendarItem(item: CronItem): boolean {
+  return CALENDAR_ITEM_TYPES.has(item.type) || item.text.toUpperCase() === 'L';
+}
+
+/**
+ * Parses a single cron field value (handles comma-separated lists)
+ */
+function parseField(
+  field: SourceField,
+  spec: FieldSpec,
+  aliases: AliasTable | undefined,
+  dialect: CronDialect,
+  wrapRanges: boolean,
+  errors: CronValidationError[]
+): CronFieldNode {
+  const items: CronItem[] = [];
+  let position = field.start;
+
+  for (const part of field.text.split(',')) {
+    let special: CronItem | PartError | undefined;
+    if (dialect === 'quartz' || dialect === 'eventbridge') {
+      special = parseCalendarPart(part, position, spec, aliases);
+    }
+    if (dialect === 'jenkins') special = parseHashPart(part, position, spec);
+    const result = special ?? parsePart(part, position, spec, aliases, wrapRanges);
+    if ('type' in result) {
+      items.push(result);
+    } else {
+      errors.push({
+        ...result,
+        field: spec.name,
+        token: part,
+        start: position,
+        end: position + part.length,
+      });
+    }
+    position += part.length + 1;
+  }
+
+  // Quartz does not support L, W or # in lists
+  if (items.length > 1) {
+    for (const item of items.filter(isCalendarItem)) {
+      errors.push({
+        code: 'SYNTAX',
+        message: `"${item.text}" must be the only value in the ${spec.label} field`,
+        field: spec.name,
+        token: item.text,
+        ...item.span,
+      });
+    }
+  }
+
+  return {
+    type: 'field',
+    name: spec.name,
+    text: field.text,
+    span: { start: field.start, end: field.start + field.text.length },
+    items,
+  };
+}
+
+/**
+ * Renumbers a Quartz day of week field (Sunday = 1) to the standard numbering (Sunday = 0)
+ */
+function toStandardDayOfWeek(node: CronFieldNode): CronFieldNode {
+  const shift = <T extends CronItem>(item: T): T => {
+    switch (item.type) {
+      case 'value':
+        return { ...item, value: item.value - 1 };
+      case 'range':
+        return { ...item, from: item.from - 1, to: item.to - 1 };
+      case 'step':
+        return { ...item, base: shift(item.base) };
+      case 'lastDayOfWeek':
+      case 'nthDayOfWeek':
+        return { ...item, day: item.day - 1 };
+      default:
+        return item;
+    }
+  };
+  return { ...node, items: node.items.map(shift) };
+}
+
+/**
+ * Checks the Quartz and EventBridge rule that exactly one of the day fields is `?`
+ */
+function checkQuartzDayFields(nodes: CronFieldNode[], dialect: CronDialect, errors: CronValidationError[]): void {
+  const dayOfMonth = nodes.find((node) => node.name === 'dayOfMonth');
+  const dayOfWeek = nodes.find((node) => node.name === 'dayOfWeek');
+  if (!dayOfMonth || !dayOfWeek) return;
+
+  const start = Math.min(dayOfMonth.span.start, dayOfWeek.span.start);
+  const end = Math.max(dayOfMonth.span.end, dayOfWeek.span.end);
+  const dayOfMonthAny = dayOfMonth.text === '?';
+  const dayOfWeekAny = dayOfWeek.text === '?';
+
+  if (dayOfMonthAny && dayOfWeekAny) {
+    errors.push({
+      code: 'DAY_FIELD_CONFLICT',
+      message: '"?" can only be used in one of day of month and day of week',
+      start,
+      end,
+    });
+  } else if (!dayOfMonthAny && !dayOfWeekAny) {
+    errors.push({
+      code: 'DAY_FIELD_CONFLICT',
+      message: `Either day of month or day of week must be "?" in ${
+        dialect === 'quartz' ? 'Quartz' : 'EventBridge'
+      } expressions`,
+      start,
+      end,
+    });
+  }
+}
+
+/**
+ * Points every node of a macro's expansion at the macro in the source
+ */
+function spanMacro(nodes: CronFieldNode[], span: CronSpan): CronFieldNode[] {
+  return nodes.map((node) => ({
+    ...node,
+    span,
+    items: node.items.map((item) =>
+      item.type === 'step' ? { ...item, span, base: { ...item.base, span } } : { ...item, span }
+    ),
+  }));
+}
+
+/**
+ * Parses a predefined macro such as `@daily`
+ */
+function analyzeMacro(value: string, field: SourceField, options: IsCronOptions): CronAnalysis {
+  const { seconds = false, macros = false } = options;
+  const { text: name, start } = field;
+  const span = { start, end: start + name.length };
+
+  if (!macros || !isCronMacro(name)) {
+    const message = macros ? `Unknown macro "${name}"` : `Macros are disabled ("${name}")`;
+    return { ast: null, errors: [{ code: 'UNKNOWN_MACRO', message, token: name, ...span }] };
+  }
+
+  const expansion = CRON_MACROS[name];
+  if (expansion === null) {
+    return {
+      ast: { type: 'cron', source: value, dialect: 'standard', seconds, trigger: 'reboot', macro: name, fields: [] },
+      errors: [],
+    };
+  }
+
+  const { ast } = analyzeCron(seconds ? `0 ${expansion}` : expansion, { seconds });
+  const fields = ast ? spanMacro(ast.fields, span) : [];
+  return {
+    ast: { type: 'cron', source: value, dialect: 'standard', seconds, trigger: 'schedule', macro: name, fields },
+    errors: [],
+  };
+}
+
+/**
+ * Checks the field count and parses every field
+ */
+function analyzeFields(value: string, fields: SourceField[], options: IsCronOptions): CronAnalysis {
+  const { alias = true, locale, dialect = 'standard', wrapRanges = false } = options;
+  const quartz = dialect === 'quartz';
+  const eventBridge = dialect === 'eventbridge';
+  const seconds = quartz || (!eventBridge && (options.seconds ?? false));
+
+  let specs = getFieldSpecs(seconds);
+  if (quartz) specs = getQuartzFieldSpecs(fields.length === 7);
+  if (eventBridge) specs = getEventBridgeFieldSpecs();
+
+  // Validate field count
+  if (fields.length !== specs.length) {
+    const first = fields[0] as SourceField;
+    const last = fields[fields.length - 1] as SourceField;
+    let hint = '';
+    if (dialect === 'standard' && !seconds && fields.length === 6) {
+      hint = ' (enable the seconds option for 6-field expressions)';
+    } else if (eventBridge && fields.length === 5) {
+      hint = ' (EventBridge requires the year field)';
+    }
+    return {
+      ast: null,
+      errors: [{
+        code: 'FIELD_COUNT',
+        message: `Expected ${quartz ? '6 or 7' : specs.length} fields but found ${fields.length}${hint}`,
+        start: first.start,
+        end: last.start + last.text.length,
+      }],
+    };
+  }
+
+  // Parse each field
+  const errors: CronValidationError[] = [];
+  let nodes = specs.map((spec, index) => {
+    const aliases = alias ? getAliasTable(spec, locale) : undefined;
+    return parseField(fields[index] as SourceField, spec, aliases, dialect, wrapRanges, errors);
+  });
+
+  if (quartz || eventBridge) {
+    checkQuartzDayFields(nodes, dialect, errors);
+    nodes = nodes.map((node) => (node.name === 'dayOfWeek' ? toStandardDayOfWeek(node) : node));
+  }
+
+  if (errors.length > 0) {
+    return { ast: null, errors };
+  }
+
+  const ast: CronAst = { type: 'cron', source: value, dialect, seconds, trigger: 'schedule', fields: nodes };
+  const impossible = options.strict ? checkImpossibleSchedule(ast, options.hashSeed) : null;
+  if (impossible) {
+    return { ast: null, errors: [impossible] };
+  }
+  return { ast, errors };
+}
+
+/**
+ * Parses the inside of an EventBridge `rate(...)`, e.g. `5 minutes`
+ */
+function analyzeRate(value: string, inner: string, offset: number): CronAnalysis {
+  const parts = splitFields(inner, offset);
+  const fail = (message: string, field?: SourceField): CronAnalysis => {
+    const start = field?.start ?? offset;
+    const end = field ? field.start + field.text.length : offset + inner.length;
+    return { ast: null, errors: [{ code: 'INVALID_RATE', message, start, end }] };
+  };
+
+  const [amount, unit] = parts;
+  if (parts.length !== 2 || !amount || !unit) {
+    return fail('Expected a value and a unit, e.g. rate(5 minutes)');
+  }
+
+  const rateValue = /^\d+$/.test(amount.text) ? parseInt(amount.text, 10) : 0;
+  if (rateValue < 1) {
+    return fail(`Rate value must be a positive integer ("${amount.text}")`, amount);
+  }
+
+  const rateUnit = RATE_UNITS.get(unit.text);
+  if (!rateUnit) {
+    return fail(`Unknown rate unit "${unit.text}" (expected minutes, hours or days)`, unit);
+  }
+
+  // EventBridge insists on the singular for 1 and the plural otherwise
+  const plural = unit.text !== rateUnit;
+  if (rateValue === 1 && plural) {
+    return fail(`Use "${rateUnit}" for a rate of 1`, unit);
+  }
+  if (rateValue > 1 && !plural) {
+    return fail(`Use "${rateUnit}s" for a rate above 1`, unit);
+  }
+
+  return {
+    ast: {
+      type: 'cron',
+      source: value,
+      dialect: 'eventbridge',
+      seconds: false,
+      trigger: 'rate',
+      rate: { value: rateValue, unit: rateUnit },
+      fields: [],
+    },
+    errors: [],
+  };
+}
+
+/**
+ * Parses an EventBridge `cron(...)` or `rate(...)` expression
+ */
+function analyzeEventBridge(value: string, options: IsCronOptions): CronAnalysis {
+  if (value.trim() === '') {
+    return {
+      ast: null,
+      errors: [{ code: 'EMPTY_EXPRESSION', message: 'Cron expression is empty', start: 0, end: value.length }],
+    };
+  }
+
+  const match = value.match(EVENTBRIDGE_PATTERN);
+  if (!match) {
+    return {
+      ast: null,
+      errors: [{
+        code: 'SYNTAX',
+        message: 'EventBridge expressions must be written as cron(...) or rate(...)',
+        start: 0,
+        end: value.length,
+      }],
+    };
+  }
+
+  const [, leading = '', kind, inner = ''] = match;
+  const offset = leading.length + (kind ?? '').length + 1;
+  if (kind === 'rate') {
+    return analyzeRate(value, inner, offset);
+  }
+
+  const fields = splitFields(inner, offset);
+  if (fields.length === 0) {
+    return {
+      ast: null,
+      errors: [{
+        code: 'EMPTY_EXPRESSION',
+        message: 'Cron expression is empty',
+        start: offset,
+        end: offset + inner.length,
+      }],
+    };
+  }
+  return analyzeFields(value, fields, options);
+}
+
+/**
+ * Parses an expression and collects every problem found.
+ * This is the single source of truth for `isCron`, `validateCron` and `parseCron`.
+ */
+export function analyzeCron(value: unknown, options: IsCronOptions = {}): CronAnalysis {
+  // Must be a string
+  if (typeof value !== 'string') {
+    return {
+      ast: null,
+      errors: [{ code: 'INVALID_TYPE', message: `Expected a string but received ${typeof value}`, start: 0, end: 0 }],
+    };
+  }
+
+  const { dialect = 'standard' } = options;
+  if (dialect === 'eventbridge') {
+    return analyzeEventBridge(value, options);
+  }
+
+  const fields = splitFields(value);
+  if (fields.length === 0) {
+    return {
+      ast: null,
+      errors: [{ code: 'EMPTY_EXPRESSION', message: 'Cron expression is empty', start: 0, end: value.length }],
+    };
+  }
+
+  // A lone `@name` is a macro (or a mistake worth a clearer error than the field count)
+  const [first] = fields;
+  if (dialect !== 'quartz' && fields.length === 1 && first?.text.startsWith('@')) {
+    return analyzeMacro(value, first, options);
+  }
+
+  return analyzeFields(value, fields, options);
+}
+
+/**
+ * Parse a cron expression into a typed tree.
+ *
+ * Each field node holds its comma-separated items (wildcard, `?`, value,
+ * range or step) with aliases resolved to numbers and source spans kept.
+ *
+ * @param value - The expression to parse
+ * @param options - Validation options
+ * @returns The parsed expression
+ * @throws {CronParseError} If the expression is not valid
+ */
+export function parseCron(value: string, options: IsCronOptions = {}): CronAst {
+  const { ast, errors } = analyzeCron(value, options);
+  if (!ast) {
+    throw new CronParseError(errors);
+  }
+  return ast;
+}
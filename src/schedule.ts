@@ -0,0 +1,492 @@
+import { compileSchedule, daysInMonth, matchesDay, type CompiledSchedule } from './calendar.js';
+import { resolveHashItems } from './jenkins.js';
+import { parseCron } from './parse.js';
+import { getTimeZone, utcToWallClock, wallClockToUtc, type CronWallClock, type TimeZone } from './timezone.js';
+import type { IsCronOptions } from './types.js';
+
+/** Options for occurrence calculation */
+export interface CronScheduleOptions extends IsCronOptions {
+  /**
+   * IANA time zone name such as `America/New_York`.
+   * @default the runtime's local time zone
+   */
+  timeZone?: string;
+
+  /**
+   * What to do with times skipped by a forward DST transition (e.g. 02:30
+   * on the night clocks jump from 02:00 to 03:00).
+   * - `shift` - run once at the first instant after the gap (cronie, Vixie cron)
+   * - `skip` - do not run
+   * @default 'shift'
+   */
+  skippedTime?: 'shift' | 'skip';
+
+  /**
+   * What to do with times repeated by a backward DST transition (e.g. 01:30
+   * on the night clocks fall back from 02:00 to 01:00).
+   * - `first` - run on the first pass only (cronie, Vixie cron)
+   * - `last` - run on the second pass only
+   * - `both` - run on both passes
+   * @default 'first'
+   */
+  repeatedTime?: 'first' | 'last' | 'both';
+}
+
+/** A single occurrence of a cron expression */
+export interface CronOccurrence {
+  /** The absolute instant */
+  date: Date;
+  /** Wall-clock fields in the schedule's time zone */
+  local: CronWallClock;
+  /** IANA name of the time zone used */
+  timeZone: string;
+  /** UTC offset in minutes at this instant (positive east of Greenwich) */
+  utcOffset: number;
+}
+
+/** Time zone and DST handling used by a search */
+export interface SearchContext {
+  zone: TimeZone;
+  skippedTime: 'shift' | 'skip';
+  repeatedTime: 'first' | 'last' | 'both';
+}
+
+// How far to look before deciding an expression never fires
+const MAX_SEARCH_YEARS = 400;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Parses and compiles an expression, or returns `null` for `@reboot` and `rate(...)` (no run times)
+ */
+export function scheduleOf(expr: string, options: IsCronOptions): CompiledSchedule | null {
+  const ast = resolveHashItems(parseCron(expr, options), options.hashSeed);
+  return ast.trigger === 'schedule' ? compileSchedule(ast) : null;
+}
+
+/**
+ * Returns the smallest value that is >= target
+ */
+function nextValue(values: number[], target: number): number | undefined {
+  return values.find((value) => value >= target);
+}
+
+/**
+ * Returns the largest value that is <= target
+ */
+function prevValue(values: number[], target: number): number | undefined {
+  for (let i = values.length - 1; i >= 0; i--) {
+    const value = values[i] as number;
+    if (value <= target) return value;
+  }
+  return undefined;
+}
+
+/**
+ * Checks whether a wall-clock time matches every field
+ */
+function matchesWallClock(schedule: CompiledSchedule, wall: CronWallClock): boolean {
+  const { year, month, day, hour, minute, second } = wall;
+  return (
+    (schedule.year === null || schedule.year.includes(year)) &&
+    schedule.month.includes(month) &&
+    matchesDay(schedule, year, month, day) &&
+    schedule.hour.includes(hour) &&
+    schedule.minute.includes(minute) &&
+    schedule.second.includes(second)
+  );
+}
+
+/**
+ * Finds the first matching wall-clock time at or after `start`
+ */
+function searchForward(schedule: CompiledSchedule, start: CronWallClock): CronWallClock | null {
+  let { year, month, day, hour, minute, second } = start;
+  const lastYear = year + MAX_SEARCH_YEARS;
+
+  while (year <= lastYear) {
+    if (schedule.year) {
+      const nextYear = nextValue(schedule.year, year);
+      if (nextYear === undefined) return null;
+      if (nextYear !== year) {
+        year = nextYear;
+        month = day = 1;
+        hour = minute = second = 0;
+      }
+    }
+
+    const nextMonth = nextValue(schedule.month, month);
+    if (nextMonth === undefined) {
+      year++;
+      month = 1;
+      day = 1;
+      hour = minute = second = 0;
+      continue;
+    }
+    if (nextMonth !== month) {
+      month = nextMonth;
+      day = 1;
+      hour = minute = second = 0;
+    }
+
+    if (day > daysInMonth(year, month)) {
+      month++;
+      day = 1;
+      hour = minute = second = 0;
+      continue;
+    }
+    if (!matchesDay(schedule, year, month, day)) {
+      day++;
+      hour = minute = second = 0;
+      continue;
+    }
+
+    const nextHour = nextValue(schedule.hour, hour);
+    if (nextHour === undefined) {
+      day++;
+      hour = minute = second = 0;
+      continue;
+    }
+    if (nextHour !== hour) {
+      hour = nextHour;
+      minute = second = 0;
+    }
+
+    const nextMinute = nextValue(schedule.minute, minute);
+    if (nextMinute === undefined) {
+      hour++;
+      minute = second = 0;
+      continue;
+    }
+    if (nextMinute !== minute) {
+      minute = nextMinute;
+      second = 0;
+    }
+
+    const nextSecond = nextValue(schedule.second, second);
+    if (nextSecond === undefined) {
+      minute++;
+      second = 0;
+      continue;
+    }
+
+    return { year, month, day, hour, minute, second: nextSecond };
+  }
+
+  return null;
+}
+
+/**
+ * Finds the last matching wall-clock time at or before `start`
+ */
+function searchBackward(schedule: CompiledSchedule, start: CronWallClock): CronWallClock | null {
+  let { year, month, day, hour, minute, second } = start;
+  const firstYear = year - MAX_SEARCH_YEARS;
+
+  while (year >= firstYear) {
+    if (schedule.year) {
+      const prevYear = prevValue(schedule.year, year);
+      if (prevYear === undefined) return null;
+      if (prevYear !== year) {
+        year = prevYear;
+        month = 12;
+        day = 31;
+        hour = 23;
+        minute = second = 59;
+      }
+    }
+
+    const prevMonth = month < 1 ? undefined : prevValue(schedule.month, month);
+    if (prevMonth === undefined) {
+      year--;
+      month = 12;
+      day = 31;
+      hour = 23;
+      minute = second = 59;
+      continue;
+    }
+    if (prevMonth !== month) {
+      month = prevMonth;
+      day = 31;
+      hour = 23;
+      minute = second = 59;
+    }
+
+    day = Math.min(day, daysInMonth(year, month));
+    if (day < 1) {
+      month--;
+      day = 31;
+      hour = 23;
+      minute = second = 59;
+      continue;
+    }
+    if (!matchesDay(schedule, year, month, day)) {
+      day--;
+      hour = 23;
+      minute = second = 59;
+      continue;
+    }
+
+    const prevHour = prevValue(schedule.hour, hour);
+    if (prevHour === undefined) {
+      day--;
+      hour = 23;
+      minute = second = 59;
+      continue;
+    }
+    if (prevHour !== hour) {
+      hour = prevHour;
+      minute = second = 59;
+    }
+
+    const prevMinute = prevValue(schedule.minute, minute);
+    if (prevMinute === undefined) {
+      hour--;
+      minute = second = 59;
+      continue;
+    }
+    if (prevMinute !== minute) {
+      minute = prevMinute;
+      second = 59;
+    }
+
+    const prevSecond = prevValue(schedule.second, second);
+    if (prevSecond === undefined) {
+      minute--;
+      second = 59;
+      continue;
+    }
+
+    return { year, month, day, hour, minute, second: prevSecond };
+  }
+
+  return null;
+}
+
+/**
+ * Builds the search context from schedule options
+ */
+export function createContext(options: CronScheduleOptions): SearchContext {
+  const { timeZone, skippedTime = 'shift', repeatedTime = 'first' } = options;
+  return { zone: getTimeZone(timeZone), skippedTime, repeatedTime };
+}
+
+/**
+ * Converts an instant into an occurrence in the context's time zone
+ */
+function toOccurrence(date: Date, context: SearchContext): CronOccurrence {
+  const { zone } = context;
+  return { date, local: zone.toWallClock(date), timeZone: zone.name, utcOffset: zone.offsetOf(date) };
+}
+
+/**
+ * Returns the instants a matching wall-clock time fires at, ascending
+ */
+function firingInstants(wall: CronWallClock, context: SearchContext): Date[] {
+  const { instants, gapEnd } = context.zone.resolve(wall);
+
+  if (gapEnd) {
+    return context.skippedTime === 'shift' ? [gapEnd] : [];
+  }
+  if (instants.length > 1 && context.repeatedTime !== 'both') {
+    return [(context.repeatedTime === 'first' ? instants[0] : instants[instants.length - 1]) as Date];
+  }
+  return instants;
+}
+
+/**
+ * Returns the wall-clock time to start searching from.
+ *
+ * Near a backward transition, wall-clock times already passed still occur again
+ * (and times not yet reached already occurred), so the search starts one
+ * overlap earlier (forward) or later (backward) and relies on the instant check.
+ */
+function startingWallClock(date: Date, direction: 1 | -1, zone: TimeZone): CronWallClock {
+  const wall = zone.toWallClock(date);
+  const offset = zone.offsetOf(date);
+  const overlap = direction * (offset - zone.offsetOf(new Date(date.getTime() + direction * DAY_MS))) * 60000;
+
+  if (overlap > 0 && zone.offsetOf(new Date(date.getTime() + direction * overlap)) !== offset) {
+    return utcToWallClock(wallClockToUtc(wall) - direction * overlap);
+  }
+  return wall;
+}
+
+/**
+ * Finds the first occurrence strictly after `from`
+ */
+export function findNext(schedule: CompiledSchedule, from: Date, context: SearchContext): CronOccurrence | null {
+  // Whole seconds only: the first candidate is the next full second
+  let start = startingWallClock(new Date(Math.floor(from.getTime() / 1000) * 1000 + 1000), 1, context.zone);
+
+  for (;;) {
+    const wall = searchForward(schedule, start);
+    if (!wall) return null;
+
+    const date = firingInstants(wall, context).find((instant) => instant.getTime() > from.getTime());
+    if (date) return toOccurrence(date, context);
+
+    // Skipped, or already passed (first pass of a repeated hour): keep looking
+    start = { ...wall, second: wall.second + 1 };
+  }
+}
+
+/**
+ * Finds the last occurrence strictly before `from`
+ */
+function findPrev(schedule: CompiledSchedule, from: Date, context: SearchContext): CronOccurrence | null {
+  let start = startingWallClock(new Date(Math.ceil(from.getTime() / 1000) * 1000 - 1000), -1, context.zone);
+
+  for (;;) {
+    const wall = searchBackward(schedule, start);
+    if (!wall) return null;
+
+    const date = firingInstants(wall, context)
+      .reverse()
+      .find((instant) => instant.getTime() < from.getTime());
+    if (date) return toOccurrence(date, context);
+
+    start = { ...wall, second: wall.second - 1 };
+  }
+}
+
+/**
+ * Checks whether an instant is a run time of a schedule, given its wall-clock matcher.
+ * Without seconds, the instant is rounded down to the minute.
+ */
+export function firesAt(
+  date: Date,
+  seconds: boolean,
+  context: SearchContext,
+  matches: (wall: CronWallClock) => boolean
+): boolean {
+  const unit = seconds ? 1000 : 60 * 1000;
+  const instant = Math.floor(date.getTime() / unit) * unit;
+  const wall = context.zone.toWallClock(new Date(instant));
+  if (matches(wall)) {
+    return firingInstants(wall, context).some((time) => time.getTime() === instant);
+  }
+  if (context.skippedTime === 'skip') return false;
+
+  // At the end of a forward transition, shifted runs of the skipped wall-clock times fire
+  const gapStart = wallClockToUtc(context.zone.toWallClock(new Date(instant - 1000))) + 1000;
+  for (let time = Math.ceil(gapStart / unit) * unit; time < wallClockToUtc(wall); time += unit) {
+    if (matches(utcToWallClock(time))) return true;
+  }
+  return false;
+}
+
+/**
+ * Get the next time a cron expression fires after a given date.
+ *
+ * Times are evaluated in `options.timeZone` (default: the runtime's local zone).
+ *
+ * @param expr - The cron expression
+ * @param from - Start searching after this instant (default: now)
+ * @param options - Validation, time zone and DST options
+ * @returns The next occurrence, or `null` if the expression never fires (always for `@reboot` and `rate(...)`)
+ * @throws {CronParseError} If the expression is not valid
+ * @throws {TypeError} If the expression uses Jenkins `H` without `hashSeed`
+ * @throws {RangeError} If the time zone is not known to the runtime
+ */
+export function nextRun(
+  expr: string,
+  from: Date = new Date(),
+  options: CronScheduleOptions = {}
+): CronOccurrence | null {
+  const schedule = scheduleOf(expr, options);
+  return schedule && findNext(schedule, from, createContext(options));
+}
+
+/**
+ * Get the last time a cron expression fired before a given date.
+ *
+ * Times are evaluated in `options.timeZone` (default: the runtime's local zone).
+ *
+ * @param expr - The cron expression
+ * @param from - Start searching before this instant (default: now)
+ * @param options - Validation, time zone and DST options
+ * @returns The previous occurrence, or `null` if none was found (always for `@reboot` and `rate(...)`)
+ * @throws {CronParseError} If the expression is not valid
+ * @throws {TypeError} If the expression uses Jenkins `H` without `hashSeed`
+ * @throws {RangeError} If the time zone is not known to the runtime
+ */
+export function prevRun(
+  expr: string,
+  from: Date = new Date(),
+  options: CronScheduleOptions = {}
+): CronOccurrence | null {
+  const schedule = scheduleOf(expr, options);
+  return schedule && findPrev(schedule, from, createContext(options));
+}
+
+/**
+ * Yields every occurrence after `from`, one at a time
+ */
+function* iterateRuns(
+  schedule: CompiledSchedule | null,
+  from: Date,
+  context: SearchContext
+): Generator<CronOccurrence, void, undefined> {
+  if (!schedule) return;
+
+  let occurrence: CronOccurrence | null;
+  let cursor = from;
+
+  while ((occurrence = findNext(schedule, cursor, context)) !== null) {
+    yield occurrence;
+    cursor = occurrence.date;
+  }
+}
+
+/**
+ * Lazily iterate over the upcoming occurrences of a cron expression.
+ *
+ * The expression is parsed once; each step computes only the next occurrence.
+ *
+ * @param expr - The cron expression
+ * @param from - Start after this instant (default: now)
+ * @param options - Validation, time zone and DST options
+ * @returns An iterator of occurrences in ascending order (empty for `@reboot` and `rate(...)`)
+ * @throws {CronParseError} If the expression is not valid
+ * @throws {TypeError} If the expression uses Jenkins `H` without `hashSeed`
+ * @throws {RangeError} If the time zone is not known to the runtime
+ */
+export function upcomingRuns(
+  expr: string,
+  from: Date = new Date(),
+  options: CronScheduleOptions = {}
+): Generator<CronOccurrence, void, undefined> {
+  const schedule = scheduleOf(expr, options);
+  return iterateRuns(schedule, from, createContext(options));
+}
+
+/**
+ * Check whether a cron expression fires at a given instant.
+ *
+ * Uses the same rules as `nextRun`: day of week 0 and 7 are both Sunday, `?` matches
+ * anything, and when both day fields are restricted either one matching is enough.
+ * Without a seconds field, any instant within a matching minute matches; milliseconds
+ * are ignored. Around DST transitions, `skippedTime` and `repeatedTime` decide which
+ * instants match, so a skipped 02:30 matches at the end of the gap with `shift`.
+ *
+ * @example
+ * matchesCron('*\/15 9-17 * * MON-FRI', new Date(2024, 0, 1, 9, 30)); // true
+ * matchesCron('0 9 * * *', new Date('2024-01-01T00:00:00Z'), { timeZone: 'Asia/Tokyo' }); // true
+ *
+ * @param expr - The cron expression
+ * @param date - The instant to check (default: now)
+ * @param options - Validation, time zone and DST options
+ * @returns `true` if the expression fires at `date` (never for `@reboot` and `rate(...)`)
+ * @throws {CronParseError} If the expression is not valid
+ * @throws {TypeError} If the expression uses Jenkins `H` without `hashSeed`
+ * @throws {RangeError} If the time zone is not known to the runtime
+ */
+export function matchesCron(expr: string, date: Date = new Date(), options: CronScheduleOptions = {}): boolean {
+  const ast = resolveHashItems(parseCron(expr, options), options.hashSeed);
+  if (ast.trigger !== 'schedule') return false;
+  const schedule = compileSchedule(ast);
+  const context = createContext(options);
+
+  return firesAt(date, ast.seconds, context, (wall) => matchesWallClock(schedule, wall));
+}
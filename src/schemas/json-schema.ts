@@ -0,0 +1,98 @@
+import type { CronErrorCode, CronFieldName, IsCronOptions } from '../types.js';
+import { isCron, validateCron } from '../validate.js';
+
+/** Validation options that can be written in a JSON Schema (everything but `locale`) */
+export type JsonCronOptions = Omit<IsCronOptions, 'locale'>;
+
+/** JSON Schema for a cron expression, checked by the `cron` keyword */
+export interface CronJsonSchema {
+  type: 'string';
+  /** `true`, or the validation options */
+  cron: true | JsonCronOptions;
+}
+
+/** Error reported by the `cron` keyword, in Ajv's error format */
+export interface CronKeywordError {
+  keyword: 'cron';
+  message: string;
+  params: { code: CronErrorCode; field?: CronFieldName; start: number; end: number };
+}
+
+/** Validation function of the `cron` keyword; its errors are read after a failed call */
+export interface CronKeywordValidate {
+  (schema: boolean | JsonCronOptions, data: string): boolean;
+  errors?: CronKeywordError[];
+}
+
+/** Keyword definition for `ajv.addKeyword()` */
+export interface CronKeywordDefinition {
+  keyword: 'cron';
+  type: 'string';
+  schemaType: ['boolean', 'object'];
+  errors: true;
+  validate: CronKeywordValidate;
+}
+
+/** Format definition for `ajv.addFormat()` */
+export interface CronFormatDefinition {
+  type: 'string';
+  validate: (value: string) => boolean;
+}
+
+/**
+ * JSON Schema for a cron expression.
+ *
+ * Validators need the `cron` keyword from `cronKeyword()` to check the expression.
+ *
+ * @example
+ * cronSchema({ seconds: true });
+ * // { type: 'string', cron: { seconds: true } }
+ *
+ * @param options - Validation options, written into the schema
+ * @returns A JSON Schema object
+ */
+export function cronSchema(options?: JsonCronOptions): CronJsonSchema {
+  return { type: 'string', cron: options ?? true };
+}
+
+/**
+ * The `cron` keyword for Ajv, reporting one error per problem.
+ *
+ * The keyword takes `true` or validation options, which are added to `defaults`.
+ *
+ * @example
+ * const ajv = new Ajv();
+ * ajv.addKeyword(cronKeyword());
+ * const validate = ajv.compile({ type: 'string', cron: { dialect: 'quartz' } });
+ *
+ * @param defaults - Options for every schema, including `locale`
+ * @returns A keyword definition
+ */
+export function cronKeyword(defaults: IsCronOptions = {}): CronKeywordDefinition {
+  const validate: CronKeywordValidate = (schema, data) => {
+    if (schema === false) return true;
+    const options = schema === true ? defaults : { ...defaults, ...schema };
+    const { valid, errors } = validateCron(data, options);
+    validate.errors = errors.map(({ message, code, field, start, end }) => ({
+      keyword: 'cron',
+      message,
+      params: field === undefined ? { code, start, end } : { code, field, start, end },
+    }));
+    return valid;
+  };
+  return { keyword: 'cron', type: 'string', schemaType: ['boolean', 'object'], errors: true, validate };
+}
+
+/**
+ * A `cron` string format for Ajv, for schemas written as `{ type: 'string', format: 'cron' }`.
+ * Formats report a single error without details; use `cronKeyword` for field-level messages.
+ *
+ * @example
+ * ajv.addFormat('cron', cronFormat({ seconds: true }));
+ *
+ * @param options - Validation options
+ * @returns A format definition
+ */
+export function cronFormat(options: IsCronOptions = {}): CronFormatDefinition {
+  return { type: 'string', validate: (value) => isCron(value, options) };
+}
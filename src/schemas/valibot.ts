@@ -0,0 +1,35 @@
+import * as v from 'valibot';
+import type { CronExpressionFor, IsCronOptions } from '../types.js';
+import { validateCron } from '../validate.js';
+
+/**
+ * Valibot schema for a cron expression.
+ *
+ * Reports one issue per problem, with the message of `validateCron` and the
+ * error `code` and `field` on the issue. The output is typed as the expression
+ * type `isCron` narrows to for the same options.
+ *
+ * @example
+ * import * as v from 'valibot';
+ * import { cronSchema } from 'is-cron/valibot';
+ *
+ * const Job = v.object({ schedule: cronSchema({ dialect: 'quartz' }) });
+ * v.parse(Job, { schedule: '0 0 12 ? * MON' }).schedule; // QuartzCronExpression
+ *
+ * @param options - Validation options
+ * @returns A schema that accepts valid expressions
+ */
+export function cronSchema<const Options extends IsCronOptions = Record<never, never>>(options?: Options) {
+  return v.pipe(
+    v.string(),
+    v.rawCheck<string>(({ dataset, addIssue }) => {
+      if (!dataset.typed) return;
+      for (const { message, code, field } of validateCron(dataset.value, options).errors) {
+        addIssue({ message });
+        // Valibot issues have no params, so the details go on the issue just added
+        Object.assign(dataset.issues?.at(-1) ?? {}, { code, field });
+      }
+    }),
+    v.transform((value) => value as CronExpressionFor<Options>)
+  );
+}
@@ -0,0 +1,35 @@
+import { string, ValidationError } from 'yup';
+import type { CronExpressionFor, IsCronOptions } from '../types.js';
+import { validateCron } from '../validate.js';
+
+/**
+ * Yup schema for a cron expression.
+ *
+ * A failed validation has one inner error per problem, with the message of
+ * `validateCron` and the error `code` and `field` in `params`. Like other Yup
+ * schemas, `undefined` passes unless `.required()` is added. The output is typed
+ * as the expression type `isCron` narrows to for the same options.
+ *
+ * @example
+ * import { object } from 'yup';
+ * import { cronSchema } from 'is-cron/yup';
+ *
+ * const Job = object({ schedule: cronSchema().required() });
+ * (await Job.validate({ schedule: '0 9 * * MON' })).schedule; // StandardCronExpression
+ *
+ * @param options - Validation options
+ * @returns A schema that accepts valid expressions
+ */
+export function cronSchema<const Options extends IsCronOptions = Record<never, never>>(options?: Options) {
+  return string<CronExpressionFor<Options>>().test({
+    name: 'cron',
+    test(value, context) {
+      if (value === undefined || value === null) return true;
+      const { errors } = validateCron(value, options);
+      if (errors.length === 0) return true;
+      return new ValidationError(
+        errors.map(({ message, code, field }) => context.createError({ message, params: { code, field } }))
+      );
+    },
+  });
+}
@@ -0,0 +1,31 @@
+import { z } from 'zod';
+import type { CronExpressionFor, IsCronOptions } from '../types.js';
+import { validateCron } from '../validate.js';
+
+/**
+ * Zod schema for a cron expression.
+ *
+ * Reports one issue per problem, with the message of `validateCron` and the
+ * rest of the error (`code`, `field`, `start`, `end`) in `params`. The output is
+ * typed as the expression type `isCron` narrows to for the same options.
+ *
+ * @example
+ * import { z } from 'zod';
+ * import { cronSchema } from 'is-cron/zod';
+ *
+ * const Job = z.object({ schedule: cronSchema({ seconds: true }) });
+ * Job.parse({ schedule: '0 *\/5 * * * *' }).schedule; // ExtendedCronExpression
+ *
+ * @param options - Validation options
+ * @returns A schema that accepts valid expressions
+ */
+export function cronSchema<const Options extends IsCronOptions = Record<never, never>>(options?: Options) {
+  return z
+    .string()
+    .superRefine((value, context) => {
+      for (const { message, ...params } of validateCron(value, options).errors) {
+        context.addIssue({ code: 'custom', message, params });
+      }
+    })
+    .transform((value) => value as CronExpressionFor<Options>);
+}
@@ -0,0 +1,287 @@
+import {
+  getEventBridgeFieldSpecs,
+  getFieldSpecs,
+  getQuartzFieldSpecs,
+  MONTH_ALIASES,
+  type FieldSpec,
+} from './fields.js';
+import type { CronFieldName, IsCronOptions } from './types.js';
+import { isCron, validateCron } from './validate.js';
+
+/** A corrected expression for invalid input */
+export interface CronSuggestion {
+  /** The corrected expression, which passes `isCron` with the same options */
+  expression: string;
+  /** What was changed, in the order the changes were made */
+  changes: string[];
+}
+
+/** A correction and how unlikely it is (lower is ranked first) */
+interface Candidate {
+  text: string;
+  cost: number;
+  changes: string[];
+}
+
+// Full English names, in the same order as the aliases
+const DAY_NAMES = ['SUNDAY', 'MONDAY', 'TUESDAY', 'WEDNESDAY', 'THURSDAY', 'FRIDAY', 'SATURDAY'] as const;
+const MONTH_NAMES = [
+  'JANUARY',
+  'FEBRUARY',
+  'MARCH',
+  'APRIL',
+  'MAY',
+  'JUNE',
+  'JULY',
+  'AUGUST',
+  'SEPTEMBER',
+  'OCTOBER',
+  'NOVEMBER',
+  'DECEMBER',
+] as const;
+
+// Costs of each kind of correction; a suggestion costs the sum of its changes
+const COST_FULL_NAME = 1;
+const COST_FIELD_COUNT = 2;
+const COST_OFF_BY_ONE = 2;
+const COST_TYPO = 3;
+const COST_SWAP = 3;
+
+// Fields that count around a clock, where one past the end is the start again
+const CLOCK_FIELDS: readonly CronFieldName[] = ['second', 'minute', 'hour'];
+
+const MAX_SUGGESTIONS = 5;
+// Limit on combinations of corrections tried per expression
+const MAX_COMBINATIONS = 32;
+
+/**
+ * Returns the number of edits (insertions, deletions, substitutions and
+ * swaps of adjacent characters) between two strings
+ */
+function editDistance(a: string, b: string): number {
+  const rows = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+  const at = (i: number, j: number): number => (rows[i] as number[])[j] as number;
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      let distance = Math.min(at(i - 1, j) + 1, at(i, j - 1) + 1, at(i - 1, j - 1) + (a[i - 1] === b[j - 1] ? 0 : 1));
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        distance = Math.min(distance, at(i - 2, j - 2) + 1);
+      }
+      (rows[i] as number[])[j] = distance;
+    }
+  }
+  return at(a.length, b.length);
+}
+
+/**
+ * Returns the field layout used to look up a field's range and aliases
+ */
+function specsFor(options: IsCronOptions): readonly FieldSpec[] {
+  const { dialect = 'standard' } = options;
+  if (dialect === 'quartz') return getQuartzFieldSpecs(true);
+  if (dialect === 'eventbridge') return getEventBridgeFieldSpecs();
+  return getFieldSpecs(true);
+}
+
+/**
+ * Suggests an alias (or its number, with aliases disabled) for a misspelled or spelled-out name
+ */
+function fixName(word: string, spec: FieldSpec, options: IsCronOptions): Candidate[] {
+  const aliases = spec.aliases;
+  const upper = word.toUpperCase();
+  if (!aliases || aliases.includes(upper)) return [];
+
+  const names: readonly string[] = aliases === MONTH_ALIASES ? MONTH_NAMES : DAY_NAMES;
+  const candidates: Candidate[] = [];
+  aliases.forEach((alias, index) => {
+    const name = names[index] as string;
+    const replacement = options.alias === false ? String(index + spec.min) : alias;
+    const change = `Use \`${replacement}\` for \`${word}\``;
+
+    // MONDAY, TUES and SEPT are the full name or a longer abbreviation
+    if (upper.length > alias.length && name.startsWith(upper)) {
+      candidates.push({ text: replacement, cost: COST_FULL_NAME, changes: [change] });
+    } else if (editDistance(upper, alias) === 1 || (upper.length > alias.length && editDistance(upper, name) === 1)) {
+      candidates.push({ text: replacement, cost: COST_TYPO, changes: [change] });
+    }
+  });
+  return candidates.sort((a, b) => a.cost - b.cost);
+}
+
+/**
+ * Suggests the nearest bound for a value one past either end of the field
+ */
+function fixNumber(digits: string, spec: FieldSpec): Candidate[] {
+  const value = Number(digits);
+  const bound = value === spec.max + 1 ? spec.max : value === spec.min - 1 ? spec.min : undefined;
+  if (bound === undefined) return [];
+  const fix = (replacement: number, cost: number): Candidate => ({
+    text: String(replacement),
+    cost,
+    changes: [`Use \`${replacement}\` for \`${digits}\`: ${spec.label} is ${spec.min}-${spec.max}`],
+  });
+
+  // Minute 60 and hour 24 may also mean the start of the next hour or day
+  const wraps = value === spec.max + 1 && CLOCK_FIELDS.includes(spec.name);
+  return wraps ? [fix(bound, COST_OFF_BY_ONE), fix(spec.min, COST_OFF_BY_ONE + 1)] : [fix(bound, COST_OFF_BY_ONE)];
+}
+
+/**
+ * Picks one option for each part, returning the cheapest combinations first
+ */
+function combine(parts: readonly Candidate[][]): Candidate[][] {
+  const costOf = (chosen: Candidate[]) => chosen.reduce((total, option) => total + option.cost, 0);
+  let results: Candidate[][] = [[]];
+  for (const options of parts) {
+    results = results
+      .flatMap((chosen) => options.map((option) => [...chosen, option]))
+      .sort((a, b) => costOf(a) - costOf(b))
+      .slice(0, MAX_COMBINATIONS);
+  }
+  return results;
+}
+
+/**
+ * Joins chosen corrections into one, on top of `base`
+ */
+function merge(base: Candidate, text: string, chosen: readonly Candidate[]): Candidate {
+  return {
+    text,
+    cost: chosen.reduce((total, option) => total + option.cost, base.cost),
+    changes: [...base.changes, ...chosen.flatMap((option) => option.changes)],
+  };
+}
+
+/**
+ * Suggests corrections for one list item of a field, such as `MONDAY-FRIDAY` or `1-8`
+ */
+function fixItem(item: string, spec: FieldSpec, options: IsCronOptions): Candidate[] {
+  // Names and numbers, keeping the separators between them; steps and `#` counts are left alone
+  const parts = item.split(/([A-Za-z]+|\d+)/).filter((part) => part !== '');
+  const choices = parts.map((part, index) => {
+    const keep: Candidate = { text: part, cost: 0, changes: [] };
+    const previous = parts[index - 1];
+    if (previous?.endsWith('/') || previous?.endsWith('#')) return [keep];
+
+    let fixes: Candidate[] = [];
+    if (/^\d+$/.test(part)) fixes = fixNumber(part, spec);
+    else if (/^[A-Za-z]+$/.test(part)) fixes = fixName(part, spec, options);
+    return fixes.length > 0 ? fixes : [keep];
+  });
+
+  const none: Candidate = { text: '', cost: 0, changes: [] };
+  return combine(choices)
+    .map((chosen) => merge(none, chosen.map((option) => option.text).join(''), chosen))
+    .filter((candidate) => candidate.changes.length > 0);
+}
+
+/**
+ * Corrects the items reported by the validator, trying the cheapest combinations first
+ */
+function fixFields(base: Candidate, options: IsCronOptions, specs: readonly FieldSpec[]): Candidate[] {
+  const { errors } = validateCron(base.text, options);
+  if (errors.length === 0) return [base];
+
+  const fixes: { start: number; end: number; candidates: Candidate[] }[] = [];
+  for (const { field, token, start, end } of errors) {
+    const spec = specs.find((candidate) => candidate.name === field);
+    if (!spec || token === undefined) return [];
+    const candidates = fixItem(token, spec, options);
+    if (candidates.length === 0) return [];
+    fixes.push({ start, end, candidates });
+  }
+
+  return combine(fixes.map(({ candidates }) => candidates)).map((chosen) => {
+    // Replace from the end so that earlier offsets stay valid
+    let text = base.text;
+    for (let index = fixes.length - 1; index >= 0; index--) {
+      const { start, end } = fixes[index] as (typeof fixes)[number];
+      text = text.slice(0, start) + (chosen[index] as Candidate).text + text.slice(end);
+    }
+    return merge(base, text, chosen);
+  });
+}
+
+/**
+ * Rewrites the whole expression for a wrong field count or swapped minute and hour fields
+ */
+function fixLayout(expr: string, options: IsCronOptions, specs: readonly FieldSpec[]): Candidate[] {
+  const { dialect = 'standard', seconds = false } = options;
+  if (dialect === 'eventbridge') return [];
+
+  const fields = expr.trim().split(/\s+/);
+  const expected = dialect === 'quartz' || seconds ? 6 : 5;
+  const candidates: Candidate[] = [];
+  const add = (rewritten: string[], cost: number, change: string) =>
+    candidates.push({ text: rewritten.join(' '), cost, changes: [change] });
+
+  if (fields.length === expected + 1 && dialect !== 'quartz') {
+    // With seconds already enabled, the extra field is a Quartz-style year
+    if (seconds) add(fields.slice(0, -1), COST_FIELD_COUNT, 'Remove the year field');
+    else add(fields.slice(1), COST_FIELD_COUNT, 'Remove the seconds field, or enable the `seconds` option');
+  } else if (fields.length === expected + 2 && dialect !== 'quartz') {
+    add(fields.slice(1, -1), COST_FIELD_COUNT + 1, 'Remove the seconds and year fields');
+  } else if (fields.length === expected - 1 && expected === 6) {
+    add(['0', ...fields], COST_FIELD_COUNT, 'Add a seconds field');
+  } else if (fields.length === expected - 1) {
+    // Without seconds, the last field is the one most often left out
+    add([...fields, '*'], COST_FIELD_COUNT, 'Add `*` for the missing day of week field');
+  }
+
+  // People used to "9:30" sometimes write the hour first
+  const names = specs.map((spec) => spec.name).filter((name) => name !== 'second' || expected === 6);
+  const minute = names.indexOf('minute');
+  const hour = names.indexOf('hour');
+  const invalid = new Set<CronFieldName | undefined>(validateCron(expr, options).errors.map(({ field }) => field));
+  if (fields.length === expected && (invalid.has('minute') || invalid.has('hour'))) {
+    const swapped = [...fields];
+    swapped[minute] = fields[hour] as string;
+    swapped[hour] = fields[minute] as string;
+    add(swapped, COST_SWAP, 'Swap the minute and hour fields');
+  }
+  return candidates;
+}
+
+/**
+ * Suggest corrected expressions for invalid input.
+ *
+ * Builds on the validator's errors: spelled-out or misspelled month and day
+ * names (`MONDAY`, `JANUARY`, `MNO`), values one past either end of a field
+ * (`60` in minutes, `1-8` in days of the week), a seconds field without the
+ * `seconds` option (or a missing one with it), a trailing year field, a
+ * missing day of week field, and minute and hour fields written the wrong
+ * way round. Every suggestion passes `isCron` with the
+ * same options; the most likely come first.
+ *
+ * @example
+ * suggestCron('0 0 * * MONDAY');
+ * // [{ expression: '0 0 * * MON', changes: ['Use `MON` for `MONDAY`'] }]
+ *
+ * suggestCron('0 0 * * 1-8')[0]?.expression; // '0 0 * * 1-7'
+ *
+ * @param expr - The invalid cron expression
+ * @param options - The validation options the suggestions must pass
+ * @returns Up to 5 suggestions, most likely first; empty for valid expressions or
+ * when no correction is found
+ */
+export function suggestCron(expr: string, options: IsCronOptions = {}): CronSuggestion[] {
+  if (isCron(expr, options)) return [];
+
+  const specs = specsFor(options);
+  const bases = [{ text: expr, cost: 0, changes: [] }, ...fixLayout(expr, options, specs)];
+  const suggestions = new Map<string, Candidate>();
+  for (const candidate of bases.flatMap((base) => fixFields(base, options, specs))) {
+    const known = suggestions.get(candidate.text);
+    if (candidate.text !== expr && (!known || candidate.cost < known.cost) && isCron(candidate.text, options)) {
+      suggestions.set(candidate.text, candidate);
+    }
+  }
+
+  return [...suggestions.values()]
+    .sort((a, b) => a.cost - b.cost)
+    .slice(0, MAX_SUGGESTIONS)
+    .map(({ text, changes }) => ({ expression: text, changes }));
+}
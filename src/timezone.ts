@@ -0,0 +1,188 @@
+/** Calendar and clock fields of a moment, independent of any time zone */
+export interface CronWallClock {
+  year: number;
+  /** 1-12 */
+  month: number;
+  /** 1-31 */
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+/** Instants that display a given wall-clock time in a zone */
+export interface ZoneResolution {
+  /** Zero (skipped time), one, or two (repeated time) instants, ascending */
+  instants: Date[];
+  /** For skipped times: the first instant after the gap */
+  gapEnd?: Date;
+}
+
+/** An IANA time zone backed by the runtime's `Intl` data */
+export interface TimeZone {
+  name: string;
+  toWallClock(date: Date): CronWallClock;
+  /** UTC offset in minutes (positive east of Greenwich) */
+  offsetOf(date: Date): number;
+  resolve(wall: CronWallClock): ZoneResolution;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Wall-clock readings kept per zone
+const RECENT_LIMIT = 16;
+
+const zones = new Map<string, TimeZone>();
+
+/**
+ * Interprets wall-clock fields as if they were UTC
+ */
+export function wallClockToUtc({ year, month, day, hour, minute, second }: CronWallClock): number {
+  const date = new Date(Date.UTC(2000, 0, 1));
+  date.setUTCFullYear(year, month - 1, day);
+  date.setUTCHours(hour, minute, second, 0);
+  return date.getTime();
+}
+
+/**
+ * Reads wall-clock fields from a UTC timestamp (inverse of `wallClockToUtc`)
+ */
+export function utcToWallClock(time: number): CronWallClock {
+  const date = new Date(time);
+  return {
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth() + 1,
+    day: date.getUTCDate(),
+    hour: date.getUTCHours(),
+    minute: date.getUTCMinutes(),
+    second: date.getUTCSeconds(),
+  };
+}
+
+/**
+ * Checks whether two wall-clock readings are identical
+ */
+function sameWallClock(a: CronWallClock, b: CronWallClock): boolean {
+  return (
+    a.year === b.year &&
+    a.month === b.month &&
+    a.day === b.day &&
+    a.hour === b.hour &&
+    a.minute === b.minute &&
+    a.second === b.second
+  );
+}
+
+/**
+ * Creates a time zone backed by an `Intl` formatter
+ */
+function createZone(name: string, format: Intl.DateTimeFormat): TimeZone {
+  const formatWallClock = (date: Date): CronWallClock => {
+    const fields: Record<string, number> = {};
+    for (const part of format.formatToParts(date)) {
+      if (part.type !== 'literal') {
+        fields[part.type] = parseInt(part.value, 10);
+      }
+    }
+    return {
+      year: fields['year'] ?? 0,
+      month: fields['month'] ?? 1,
+      day: fields['day'] ?? 1,
+      // Some runtimes report midnight as 24 even with a 23-hour cycle
+      hour: (fields['hour'] ?? 0) % 24,
+      minute: fields['minute'] ?? 0,
+      second: fields['second'] ?? 0,
+    };
+  };
+
+  // Formatting is slow, and many schedules are usually checked against the same instants
+  const recent = new Map<number, CronWallClock>();
+  const toWallClock = (date: Date): CronWallClock => {
+    const time = date.getTime();
+    let wall = recent.get(time);
+    if (!wall) {
+      wall = formatWallClock(date);
+      if (recent.size >= RECENT_LIMIT) recent.clear();
+      recent.set(time, wall);
+    }
+    return { ...wall };
+  };
+
+  const offsetOf = (date: Date): number => {
+    const time = Math.floor(date.getTime() / 1000) * 1000;
+    return Math.round((wallClockToUtc(toWallClock(new Date(time))) - time) / 60000);
+  };
+
+  const resolve = (wall: CronWallClock): ZoneResolution => {
+    const utc = wallClockToUtc(wall);
+    const offsets = new Set([
+      offsetOf(new Date(utc - DAY_MS)),
+      offsetOf(new Date(utc)),
+      offsetOf(new Date(utc + DAY_MS)),
+    ]);
+
+    const instants = [...offsets]
+      .map((offset) => utc - offset * 60000)
+      .filter((time, index, all) => all.indexOf(time) === index)
+      .filter((time) => sameWallClock(toWallClock(new Date(time)), wall))
+      .sort((a, b) => a - b)
+      .map((time) => new Date(time));
+
+    if (instants.length > 0) {
+      return { instants };
+    }
+
+    // Skipped time: binary search for the transition between the offsets around it
+    const before = offsetOf(new Date(utc - DAY_MS));
+    const after = offsetOf(new Date(utc + DAY_MS));
+    let low = utc - Math.max(before, after) * 60000;
+    let high = utc - Math.min(before, after) * 60000;
+    while (high - low > 1000) {
+      const middle = Math.floor((low + high) / 2000) * 1000;
+      if (wallClockToUtc(toWallClock(new Date(middle))) > utc) {
+        high = middle;
+      } else {
+        low = middle;
+      }
+    }
+    return { instants, gapEnd: new Date(high) };
+  };
+
+  return { name, toWallClock, offsetOf, resolve };
+}
+
+/**
+ * Returns the runtime's default time zone name
+ */
+export function getLocalTimeZoneName(): string {
+  return new Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+/**
+ * Returns a time zone by IANA name (default: the runtime's local zone)
+ *
+ * @throws {RangeError} If the time zone is not known to the runtime
+ */
+export function getTimeZone(name: string = getLocalTimeZoneName()): TimeZone {
+  let zone = zones.get(name);
+  if (!zone) {
+    let format: Intl.DateTimeFormat;
+    try {
+      format = new Intl.DateTimeFormat('en-US', {
+        timeZone: name,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: 'numeric',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: 'numeric',
+        second: 'numeric',
+      });
+    } catch {
+      throw new RangeError(`Unknown time zone "${name}"`);
+    }
+    zone = createZone(name, format);
+    zones.set(name, zone);
+  }
+  return zone;
+}
@@ -0,0 +1,329 @@
+import type { CronLocale } from './locale.js';
+
+/** Options for cron validation */
+export interface IsCronOptions {
+  /**
+   * Enable 6-field cron format with seconds as the first field.
+   * @default false
+   */
+  seconds?: boolean;
+
+  /**
+   * Allow month and day-of-week aliases (JAN-DEC, SUN-SAT).
+   * @default true
+   */
+  alias?: boolean;
+
+  /**
+   * Locale pack whose month and day names are accepted as aliases
+   * in addition to the English ones. `describeCron` also uses it for wording.
+   */
+  locale?: CronLocale;
+
+  /**
+   * Accept predefined macros such as `@daily`, `@hourly` and `@reboot`
+   * in place of the fields.
+   * @default false
+   */
+  macros?: boolean;
+
+  /**
+   * Cron flavour to validate against.
+   * - `standard` - 5 fields (6 with `seconds`), Vixie cron / cronie syntax
+   * - `quartz` - Quartz scheduler: seconds, optional year, `L`, `W`, `#`,
+   *   day of week 1-7 with SUN=1, and exactly one day field set to `?`
+   *   (the `seconds` option is ignored)
+   * - `jenkins` - standard fields plus Jenkins' hashed `H`, `H(0-29)` and `H/15`
+   * - `eventbridge` - AWS EventBridge `cron(...)` with a required year and
+   *   Quartz-style day fields, or `rate(...)`
+   * @default 'standard'
+   */
+  dialect?: CronDialect;
+
+  /**
+   * Seed for Jenkins `H` values, such as the job name. Needed to compute
+   * run times or descriptions of expressions that use `H` (not for validation).
+   */
+  hashSeed?: string;
+
+  /**
+   * Also reject expressions that are valid but can never fire, such as
+   * `0 0 30 FEB *` or `0 0 31 4,6,9,11 *` (reported as `IMPOSSIBLE_SCHEDULE`).
+   * February 29 counts as possible unless the year field rules out every leap year.
+   * @default false
+   */
+  strict?: boolean;
+
+  /**
+   * Accept ranges that wrap around the end of the field, such as `22-2`
+   * (hours 22, 23, 0, 1 and 2) or `FRI-MON`. A step counts along the wrapped
+   * sequence, so `22-2/2` is 22, 0 and 2. Days of the week wrap after Saturday,
+   * days of the month after 31, and years never wrap.
+   * @default false
+   */
+  wrapRanges?: boolean;
+}
+
+/** Supported cron flavours */
+export type CronDialect = 'standard' | 'quartz' | 'jenkins' | 'eventbridge';
+
+/** Valid cron expression string (branded type for stricter typing) */
+export type CronExpression = string & { readonly __brand: unique symbol };
+
+/** Field layout a branded expression was validated against */
+export type CronFormat = 'standard' | 'extended' | 'quartz' | 'jenkins' | 'eventbridge';
+
+/**
+ * Cron expression validated for one format. Assignable to `CronExpression`,
+ * but not to the expression type of another format.
+ */
+export type CronExpressionOf<Format extends CronFormat> = CronExpression & { readonly __format: Format };
+
+/** Valid standard 5-field expression */
+export type StandardCronExpression = CronExpressionOf<'standard'>;
+
+/** Valid 6-field expression with seconds */
+export type ExtendedCronExpression = CronExpressionOf<'extended'>;
+
+/** Valid Quartz expression */
+export type QuartzCronExpression = CronExpressionOf<'quartz'>;
+
+/** Valid Jenkins expression */
+export type JenkinsCronExpression = CronExpressionOf<'jenkins'>;
+
+/** Valid EventBridge expression */
+export type EventBridgeCronExpression = CronExpressionOf<'eventbridge'>;
+
+/**
+ * Expression type for validation options known at compile time, matching what
+ * `isCron` narrows to: `CronExpression` when the format cannot be told.
+ */
+export type CronExpressionFor<Options extends IsCronOptions> = Options extends { dialect: 'quartz' }
+  ? QuartzCronExpression
+  : Options extends { dialect: 'jenkins' }
+    ? JenkinsCronExpression
+    : Options extends { dialect: 'eventbridge' }
+      ? EventBridgeCronExpression
+      : Options extends { dialect?: 'standard'; seconds: true }
+        ? ExtendedCronExpression
+        : Options extends { dialect?: 'standard'; seconds?: false }
+          ? StandardCronExpression
+          : CronExpression;
+
+/** Predefined macro accepted instead of the fields when `macros` is enabled */
+export type CronMacro =
+  | '@yearly'
+  | '@annually'
+  | '@monthly'
+  | '@weekly'
+  | '@daily'
+  | '@midnight'
+  | '@hourly'
+  | '@reboot';
+
+/** Name of a single cron field */
+export type CronFieldName = 'second' | 'minute' | 'hour' | 'dayOfMonth' | 'month' | 'dayOfWeek' | 'year';
+
+/**
+ * Machine-readable reason a cron expression was rejected.
+ *
+ * - `INVALID_TYPE` - the value is not a string
+ * - `EMPTY_EXPRESSION` - the string is empty or only whitespace
+ * - `FIELD_COUNT` - wrong number of fields for the selected format
+ * - `SYNTAX` - a token does not follow the field syntax
+ * - `OUT_OF_RANGE` - a number is outside the field's allowed range
+ * - `REVERSED_RANGE` - a range ends before it starts (e.g. `30-15`)
+ * - `INVALID_STEP` - a step is zero, too large or not a number
+ * - `UNKNOWN_ALIAS` - a name is not a known alias, or aliases are disabled
+ * - `UNKNOWN_MACRO` - an `@` name is not a known macro, or macros are disabled
+ * - `DAY_FIELD_CONFLICT` - Quartz and EventBridge need exactly one of the day fields to be `?`
+ * - `INVALID_RATE` - an EventBridge `rate(...)` has a bad value or unit
+ * - `IMPOSSIBLE_SCHEDULE` - the expression can never fire (only with `strict`)
+ */
+export type CronErrorCode =
+  | 'INVALID_TYPE'
+  | 'EMPTY_EXPRESSION'
+  | 'FIELD_COUNT'
+  | 'SYNTAX'
+  | 'OUT_OF_RANGE'
+  | 'REVERSED_RANGE'
+  | 'INVALID_STEP'
+  | 'UNKNOWN_ALIAS'
+  | 'UNKNOWN_MACRO'
+  | 'DAY_FIELD_CONFLICT'
+  | 'INVALID_RATE'
+  | 'IMPOSSIBLE_SCHEDULE';
+
+/** A single problem found while validating a cron expression */
+export interface CronValidationError {
+  /** Machine-readable error code */
+  code: CronErrorCode;
+  /** Human-readable description of the problem */
+  message: string;
+  /** Field that failed (absent for expression-level errors) */
+  field?: CronFieldName;
+  /** Offending comma-separated item within the field */
+  token?: string;
+  /** Start offset of the offending text in the original string */
+  start: number;
+  /** End offset (exclusive) of the offending text in the original string */
+  end: number;
+}
+
+/** Result of `validateCron` */
+export interface CronValidationResult {
+  /** `true` when the expression has no errors */
+  valid: boolean;
+  /** Every problem found, in source order */
+  errors: CronValidationError[];
+}
+
+/** Character offsets of a node in the original string (end is exclusive) */
+export interface CronSpan {
+  start: number;
+  end: number;
+}
+
+/** Shared properties of every AST node */
+interface CronNodeBase {
+  /** Source text of the node */
+  text: string;
+  /** Position of the node in the original string */
+  span: CronSpan;
+}
+
+/** `*` - every value of the field */
+export interface CronWildcardItem extends CronNodeBase {
+  type: 'wildcard';
+}
+
+/** `?` - no specific value (day of month / day of week only) */
+export interface CronAnyItem extends CronNodeBase {
+  type: 'any';
+}
+
+/** A single value such as `5` or `JAN` (aliases are resolved to numbers) */
+export interface CronValueItem extends CronNodeBase {
+  type: 'value';
+  value: number;
+}
+
+/**
+ * An inclusive range such as `1-5` or `MON-FRI`. With `wrapRanges`, `from`
+ * is greater than `to` for a range that wraps around, such as `22-2`.
+ */
+export interface CronRangeItem extends CronNodeBase {
+  type: 'range';
+  from: number;
+  to: number;
+}
+
+/**
+ * Jenkins `H` or `H(0-29)` - one value between `from` and `to`, picked by
+ * hashing `hashSeed`. As a step base (`H/15`) it picks the starting value.
+ */
+export interface CronHashItem extends CronNodeBase {
+  type: 'hash';
+  from: number;
+  to: number;
+}
+
+/**
+ * A stepped item such as `*\/15`, `0-30/5` or `5/10`.
+ * A single value as the base (`5/10`) runs from that value to the end of the field.
+ */
+export interface CronStepItem extends CronNodeBase {
+  type: 'step';
+  base: CronWildcardItem | CronValueItem | CronRangeItem | CronHashItem;
+  step: number;
+}
+
+/** Quartz `L` or `L-3` in day of month - the last day of the month, minus `offset` days */
+export interface CronLastDayItem extends CronNodeBase {
+  type: 'lastDay';
+  offset: number;
+}
+
+/** Quartz `15W` - the weekday (Monday-Friday) nearest to `day` within the same month */
+export interface CronNearestWeekdayItem extends CronNodeBase {
+  type: 'nearestWeekday';
+  day: number;
+}
+
+/** Quartz `LW` - the last weekday (Monday-Friday) of the month */
+export interface CronLastWeekdayItem extends CronNodeBase {
+  type: 'lastWeekday';
+}
+
+/** Quartz `5L` or `FRIL` in day of week - the last such day of the month */
+export interface CronLastDayOfWeekItem extends CronNodeBase {
+  type: 'lastDayOfWeek';
+  /** 0-6 (Sunday = 0) */
+  day: number;
+}
+
+/** Quartz `6#3` - the `nth` (1-5) such day of the month */
+export interface CronNthDayOfWeekItem extends CronNodeBase {
+  type: 'nthDayOfWeek';
+  /** 0-6 (Sunday = 0) */
+  day: number;
+  nth: number;
+}
+
+/** Quartz items whose days depend on the calendar month */
+export type CronCalendarItem =
+  | CronLastDayItem
+  | CronNearestWeekdayItem
+  | CronLastWeekdayItem
+  | CronLastDayOfWeekItem
+  | CronNthDayOfWeekItem;
+
+/** One comma-separated item of a cron field */
+export type CronItem =
+  | CronWildcardItem
+  | CronAnyItem
+  | CronValueItem
+  | CronRangeItem
+  | CronStepItem
+  | CronHashItem
+  | CronCalendarItem;
+
+/** A parsed cron field */
+export interface CronFieldNode extends CronNodeBase {
+  type: 'field';
+  name: CronFieldName;
+  items: CronItem[];
+}
+
+/** An EventBridge `rate(5 minutes)` schedule */
+export interface CronRate {
+  value: number;
+  unit: 'minute' | 'hour' | 'day';
+}
+
+/** A parsed cron expression */
+export interface CronAst {
+  type: 'cron';
+  /** The original string */
+  source: string;
+  /** Cron flavour the expression was parsed as */
+  dialect: CronDialect;
+  /** Whether the expression has a seconds field */
+  seconds: boolean;
+  /**
+   * `reboot` for `@reboot`, which runs once at startup instead of on a schedule,
+   * and `rate` for EventBridge `rate(...)`, which counts from when it is created.
+   * Such expressions have no fields and never produce run times.
+   */
+  trigger: 'schedule' | 'reboot' | 'rate';
+  /** The interval of an EventBridge `rate(...)` expression */
+  rate?: CronRate;
+  /** The macro the expression was written as, if any */
+  macro?: CronMacro;
+  /**
+   * One node per field, in source order.
+   * For macros these are the fields of the expansion, spanning the macro.
+   * Day of week values are 0-6 (Sunday = 0) in every dialect.
+   */
+  fields: CronFieldNode[];
+}
@@ -0,0 +1,72 @@
+import { analyzeCron } from './parse.js';
+import type {
+  CronExpression,
+  CronValidationResult,
+  EventBridgeCronExpression,
+  ExtendedCronExpression,
+  IsCronOptions,
+  JenkinsCronExpression,
+  QuartzCronExpression,
+  StandardCronExpression,
+} from './types.js';
+
+/**
+ * Validate a cron expression and report every problem found.
+ *
+ * Applies exactly the same rules as `isCron`, so `validateCron(value).valid`
+ * always equals `isCron(value)` for the same options.
+ *
+ * @param value - The value to check
+ * @param options - Validation options
+ * @returns The validation result with per-field diagnostics
+ */
+export function validateCron(value: unknown, options: IsCronOptions = {}): CronValidationResult {
+  const { errors } = analyzeCron(value, options);
+  return { valid: errors.length === 0, errors };
+}
+
+/**
+ * Check if a string is a valid cron expression.
+ *
+ * The value is narrowed to the expression type of the format implied by
+ * `dialect` and `seconds` (`StandardCronExpression` by default), or to
+ * `CronExpression` when the options are not known at compile time.
+ *
+ * @param value - The value to check
+ * @param options - Validation options
+ * @returns `true` if the value is a valid cron expression, `false` otherwise
+ */
+export function isCron(value: unknown, options: IsCronOptions & { dialect: 'quartz' }): value is QuartzCronExpression;
+export function isCron(value: unknown, options: IsCronOptions & { dialect: 'jenkins' }): value is JenkinsCronExpression;
+export function isCron(
+  value: unknown,
+  options: IsCronOptions & { dialect: 'eventbridge' }
+): value is EventBridgeCronExpression;
+export function isCron(
+  value: unknown,
+  options: IsCronOptions & { dialect?: 'standard'; seconds: true }
+): value is ExtendedCronExpression;
+export function isCron(
+  value: unknown,
+  options?: IsCronOptions & { dialect?: 'standard'; seconds?: false }
+): value is StandardCronExpression;
+export function isCron(value: unknown, options?: IsCronOptions): value is CronExpression;
+export function isCron(value: unknown, options: IsCronOptions = {}): value is CronExpression {
+  return analyzeCron(value, options).errors.length === 0;
+}
+
+/**
+ * Check if a string is a valid standard 5-field cron expression.
+ * Alias for `isCron(value, { seconds: false })`
+ */
+export function isStandardCron(value: unknown): value is StandardCronExpression {
+  return isCron(value, { seconds: false });
+}
+
+/**
+ * Check if a string is a valid 6-field cron expression with seconds.
+ * Alias for `isCron(value, { seconds: true })`
+ */
+export function isExtendedCron(value: unknown): value is ExtendedCronExpression {
+  return isCron(value, { seconds: true });
+}
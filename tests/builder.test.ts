@@ -0,0 +1,93 @@
+import { describe, it, expect, expectTypeOf } from 'vitest';
+import {
+  cron,
+  CronBuilder,
+  CronParseError,
+  isCron,
+  type ExtendedCronExpression,
+  type StandardCronExpression,
+} from '../src/index.js';
+
+describe('cron builder', () => {
+  it('should build the expression described by the calls', () => {
+    const expr = cron().at({ minute: 30, hour: 9 }).onWeekdays(['MON', 'FRI']).everyNMonths(2).build();
+    expect(expr).toBe('30 9 * */2 MON,FRI');
+    expect(isCron(expr)).toBe(true);
+  });
+
+  it('should leave unset fields as wildcards', () => {
+    expect(cron().build()).toBe('* * * * *');
+    expect(cron().everyNMinutes(15).build()).toBe('*/15 * * * *');
+    expect(cron().everyNHours(6).everyNDays(2).build()).toBe('* */6 */2 * *');
+  });
+
+  it('should default smaller units to 0 in at()', () => {
+    expect(cron().at({ hour: 9 }).build()).toBe('0 9 * * *');
+    expect(cron().at({ minute: 5 }).build()).toBe('5 * * * *');
+    expect(cron({ seconds: true }).at({ hour: 9 }).build()).toBe('0 0 9 * * *');
+    expect(cron({ seconds: true }).at({ minute: 1, second: 30 }).build()).toBe('30 1 * * * *');
+  });
+
+  it('should write day, month and weekday lists', () => {
+    expect(cron().at({ hour: 0 }).onDaysOfMonth([1, 15]).build()).toBe('0 0 1,15 * *');
+    expect(cron().at({ hour: 0 }).inMonths(['JAN', 7, 'DEC']).build()).toBe('0 0 * JAN,7,DEC *');
+    expect(cron().at({ hour: 0 }).onWeekdays([0, 'SAT']).build()).toBe('0 0 * * 0,SAT');
+  });
+
+  it('should build 6-field expressions with seconds', () => {
+    const expr = cron({ seconds: true }).everyNSeconds(10).build();
+    expect(expr).toBe('*/10 * * * * *');
+    expect(isCron(expr, { seconds: true })).toBe(true);
+  });
+
+  it('should type the result by the seconds option', () => {
+    expectTypeOf(cron().build()).toEqualTypeOf<StandardCronExpression>();
+    expectTypeOf(cron({ seconds: false }).build()).toEqualTypeOf<StandardCronExpression>();
+    expectTypeOf(cron({ seconds: true }).everyNSeconds(5).build()).toEqualTypeOf<ExtendedCronExpression>();
+  });
+
+  it('should only accept seconds in the time with seconds enabled', () => {
+    expectTypeOf(cron().at).parameter(0).toHaveProperty('second').toEqualTypeOf<0 | undefined>();
+    expectTypeOf(cron({ seconds: true }).at).parameter(0).toHaveProperty('second').toEqualTypeOf<number | undefined>();
+  });
+
+  it('should reject seconds in 5-field mode', () => {
+    expect(() => cron().everyNSeconds(10)).toThrow(TypeError);
+    // @ts-expect-error - seconds other than 0 need cron({ seconds: true })
+    expect(() => cron().at({ second: 30 })).toThrow('cron({ seconds: true })');
+    expect(cron().at({ hour: 1, second: 0 }).build()).toBe('0 1 * * *');
+  });
+
+  it('should reject out-of-range values when building', () => {
+    const builder = cron().at({ hour: 24 });
+    expect(builder.toString()).toBe('0 24 * * *');
+    expect(() => builder.build()).toThrow(CronParseError);
+    expect(() => builder.build()).toThrow('Value 24 is out of range for hour (0-23)');
+    expect(() => cron().onDaysOfMonth([0]).build()).toThrow(CronParseError);
+    expect(() => cron().at({ minute: 1.5 }).build()).toThrow(CronParseError);
+    expect(() => cron().everyNMonths(13).build()).toThrow(CronParseError);
+    expect(() => cron().everyNMinutes(0).build()).toThrow(CronParseError);
+  });
+
+  it('should report every problem', () => {
+    try {
+      cron().at({ minute: 60, hour: 25 }).build();
+      expect.unreachable();
+    } catch (error) {
+      expect((error as CronParseError).errors.map((e) => e.field)).toEqual(['minute', 'hour']);
+    }
+  });
+
+  it('should reject empty lists', () => {
+    expect(() => cron().onWeekdays([])).toThrow('onWeekdays() needs at least one value');
+    expect(() => cron().inMonths([])).toThrow(TypeError);
+  });
+
+  it('should not change the builder a call is made on', () => {
+    const daily = cron().at({ hour: 6 });
+    const weekdays = daily.onWeekdays(['MON', 'TUE', 'WED', 'THU', 'FRI']);
+    expect(daily.build()).toBe('0 6 * * *');
+    expect(weekdays.build()).toBe('0 6 * * MON,TUE,WED,THU,FRI');
+    expect(weekdays).toBeInstanceOf(CronBuilder);
+  });
+});
@@ -0,0 +1,193 @@
+import { describe, it, expect } from 'vitest';
+import { runCli, type CliIo } from '../src/cli.js';
+
+/** Runs the CLI with captured output and an in-memory file system */
+function run(args: string[], files: Record<string, string> = {}) {
+  let stdout = '';
+  let stderr = '';
+  const io: CliIo = {
+    stdout: (text) => (stdout += text),
+    stderr: (text) => (stderr += text),
+    readFile: (path) => {
+      const text = files[path];
+      if (text === undefined) throw new Error(`ENOENT: no such file, open '${path}'`);
+      return text;
+    },
+  };
+  const status = runCli(args, io);
+  return { status, stdout, stderr };
+}
+
+describe('runCli', () => {
+  describe('validate', () => {
+    it('should exit 0 for valid expressions', () => {
+      expect(run(['validate', '0 9 * * MON-FRI'])).toEqual({ status: 0, stdout: 'valid\n', stderr: '' });
+    });
+
+    it('should exit 1 and underline the problem for invalid expressions', () => {
+      const { status, stdout, stderr } = run(['validate', '0 25 * * *']);
+      expect(status).toBe(1);
+      expect(stdout).toBe('');
+      expect(stderr).toBe('error: Value 25 is out of range for hour (0-23) [OUT_OF_RANGE]\n  0 25 * * *\n    ^^\n');
+    });
+
+    it('should pass validation options', () => {
+      expect(run(['validate', '0 0 9 * * *']).status).toBe(1);
+      expect(run(['validate', '0 0 9 * * *', '--seconds']).status).toBe(0);
+      expect(run(['validate', '0 0 * JAN *', '--no-alias']).status).toBe(1);
+      expect(run(['validate', '@daily', '--no-macros']).status).toBe(1);
+      expect(run(['validate', '0 0 30 2 *', '--strict']).status).toBe(1);
+      expect(run(['validate', '0 22-2 * * *', '--wrap-ranges']).status).toBe(0);
+      expect(run(['validate', '0 0 12 ? * MON', '--dialect', 'quartz']).status).toBe(0);
+      expect(run(['validate', '0 0 12 ? * MON', '--dialect=quartz']).status).toBe(0);
+      expect(run(['validate', '0 0 * Mär *', '--locale', 'de']).status).toBe(0);
+    });
+
+    it('should write JSON', () => {
+      const { status, stdout } = run(['validate', '0 0 32 * *', '--json']);
+      expect(status).toBe(1);
+      const result = JSON.parse(stdout);
+      expect(result).toMatchObject({ expression: '0 0 32 * *', valid: false });
+      expect(result.errors[0]).toMatchObject({ code: 'OUT_OF_RANGE', field: 'dayOfMonth', start: 4, end: 6 });
+      expect(JSON.parse(run(['validate', '* * * * *', '--json']).stdout)).toEqual({
+        expression: '* * * * *',
+        valid: true,
+        errors: [],
+      });
+    });
+  });
+
+  describe('explain', () => {
+    it('should describe the expression', () => {
+      expect(run(['explain', '0 9 * * MON-FRI']).stdout).toBe('At 09:00, Monday through Friday\n');
+      expect(run(['explain', '0 9 * * MON-FRI', '--hour12']).stdout).toBe('At 9:00 AM, Monday through Friday\n');
+      expect(run(['explain', '0 9 * * 1-5', '--locale', 'de']).stdout).toBe('Um 09:00, Montag bis Freitag\n');
+    });
+
+    it('should write JSON', () => {
+      expect(JSON.parse(run(['explain', '@daily', '--json']).stdout)).toEqual({
+        expression: '@daily',
+        description: 'At 00:00',
+      });
+    });
+
+    it('should report invalid expressions', () => {
+      const { status, stderr } = run(['explain', '* * *']);
+      expect(status).toBe(1);
+      expect(stderr).toContain('[FIELD_COUNT]');
+    });
+  });
+
+  describe('next', () => {
+    const from = '2024-01-01T00:00:00Z';
+
+    it('should list run times in the time zone', () => {
+      const { status, stdout } = run(['next', '0 9 * * *', '-n', '2', '--from', from, '--tz', 'Asia/Tokyo']);
+      expect(status).toBe(0);
+      expect(stdout).toBe('2024-01-02T09:00:00+09:00\n2024-01-03T09:00:00+09:00\n');
+    });
+
+    it('should list 5 run times by default', () => {
+      const { stdout } = run(['next', '0 0 1 * *', '--from', from, '--tz', 'UTC']);
+      expect(stdout.trim().split('\n')).toHaveLength(5);
+    });
+
+    it('should write JSON', () => {
+      const args = ['next', '30 12 * * *', '--count=1', '--from', from, '--tz', 'America/New_York', '--json'];
+      const { stdout } = run(args);
+      expect(JSON.parse(stdout)).toEqual({
+        expression: '30 12 * * *',
+        runs: [{ date: '2024-01-01T17:30:00.000Z', local: '2024-01-01T12:30:00-05:00', timeZone: 'America/New_York' }],
+      });
+    });
+
+    it('should list nothing for expressions without run times', () => {
+      expect(run(['next', '@reboot'])).toEqual({ status: 0, stdout: '', stderr: '' });
+    });
+
+    it('should reject bad counts, dates and time zones', () => {
+      expect(run(['next', '* * * * *', '-n', '0']).status).toBe(2);
+      expect(run(['next', '* * * * *', '--from', 'yesterday']).status).toBe(2);
+      expect(run(['next', '* * * * *', '--tz', 'Mars/Olympus']).stderr).toContain('Mars/Olympus');
+    });
+  });
+
+  describe('lint', () => {
+    it('should exit 0 for a valid crontab', () => {
+      expect(run(['lint', 'crontab'], { crontab: 'MAILTO=ops\n0 2 * * * backup\n' })).toEqual({
+        status: 0,
+        stdout: '',
+        stderr: '',
+      });
+    });
+
+    it('should report problems with file, line and column', () => {
+      const { status, stderr } = run(['lint', 'crontab'], { crontab: '# jobs\n0 2 * * * backup\n0 2 * * 9 report\n' });
+      expect(status).toBe(1);
+      expect(stderr).toBe(
+        'crontab:3:9: error: Value 9 is out of range for day of week (0-7) [OUT_OF_RANGE]\n1 problem\n'
+      );
+    });
+
+    it('should read system crontabs', () => {
+      const files = { '/etc/crontab': '17 * * * * root run-parts /etc/cron.hourly\n' };
+      expect(run(['lint', '/etc/crontab', '--system'], files).status).toBe(0);
+      expect(run(['lint', '/etc/crontab'], files).status).toBe(0);
+      expect(run(['lint', '/etc/crontab'], { '/etc/crontab': '0 0 * * * root\n' }).status).toBe(0);
+      expect(run(['lint', '/etc/crontab', '--system'], { '/etc/crontab': '0 0 * * * root\n' }).status).toBe(1);
+    });
+
+    it('should write JSON', () => {
+      const { stdout } = run(['lint', '-', '--json'], { '-': '0 0 * * *\n' });
+      expect(JSON.parse(stdout)).toMatchObject({
+        file: '-',
+        valid: false,
+        errors: [{ code: 'MISSING_COMMAND', line: 1, column: 10 }],
+      });
+    });
+
+    it('should report files that cannot be read', () => {
+      const { status, stderr } = run(['lint', 'missing']);
+      expect(status).toBe(2);
+      expect(stderr).toContain('cannot read missing');
+    });
+  });
+
+  describe('usage', () => {
+    it('should print help', () => {
+      const { status, stdout } = run(['--help']);
+      expect(status).toBe(0);
+      expect(stdout).toContain('Usage: is-cron <command>');
+      expect(run(['help']).stdout).toBe(stdout);
+    });
+
+    it('should exit 2 for usage errors', () => {
+      expect(run([]).stderr).toContain('Missing command');
+      expect(run(['frobnicate']).status).toBe(2);
+      expect(run(['validate']).status).toBe(2);
+      expect(run(['validate', '0', '9', '*', '*', '*']).stderr).toContain('quote it');
+      expect(run(['validate', '* * * * *', '--bogus']).stderr).toContain('Unknown option --bogus');
+      expect(run(['validate', '* * * * *', '--dialect', 'cronie']).stderr).toContain('Unknown dialect "cronie"');
+      expect(run(['validate', '* * * * *', '--dialect']).stderr).toContain('--dialect needs a value');
+    });
+
+    it('should not report unexpected errors as usage errors', () => {
+      const io: CliIo = {
+        stdout: () => {
+          throw new TypeError('stdout is closed');
+        },
+        stderr: () => undefined,
+        readFile: () => '',
+      };
+      expect(() => runCli(['validate', '* * * * *'], io)).toThrow('stdout is closed');
+    });
+
+    it('should report Jenkins H without a seed', () => {
+      const { status, stderr } = run(['next', 'H * * * *', '--dialect', 'jenkins']);
+      expect(status).toBe(2);
+      expect(stderr).toContain('Expressions with "H" need --hash-seed');
+      expect(run(['explain', 'H * * * *', '--dialect', 'jenkins']).status).toBe(2);
+      expect(run(['next', 'H * * * *', '--dialect', 'jenkins', '--hash-seed', 'job', '-n', '1']).status).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { cronEquals, cronIntersects, CronParseError } from '../src/index.js';
+
+// All dates are local time, matching how the scheduler evaluates expressions
+const at = (year: number, month: number, day: number, hour = 0, minute = 0, second = 0) =>
+  new Date(year, month - 1, day, hour, minute, second);
+
+describe('cronEquals', () => {
+  it('should compare schedules rather than text', () => {
+    expect(cronEquals('*/15 * * * *', '0,15,30,45 * * * *')).toBe(true);
+    expect(cronEquals('0 9-17 * * 1-5', '0 9,10,11,12,13,14,15,16,17 * * MON-FRI')).toBe(true);
+    expect(cronEquals('0 0 * * *', '0 0 * * 1')).toBe(false);
+    expect(cronEquals('0 0 * * *', '0 1 * * *')).toBe(false);
+  });
+
+  it('should ignore alias and numeric spellings', () => {
+    expect(cronEquals('0 0 * jan mon', '00 00 * 1 1')).toBe(true);
+    expect(cronEquals('0 0 * * 7', '0 0 * * SUN')).toBe(true);
+  });
+
+  it('should compare 5- and 6-field forms', () => {
+    expect(cronEquals('0 0 * * MON', '0 0 0 * * 1')).toBe(true);
+    expect(cronEquals('* * * * *', '0 * * * * *')).toBe(true);
+    expect(cronEquals('* * * * *', '* * * * * *')).toBe(false);
+  });
+
+  it('should compare the days a schedule fires on', () => {
+    // Only months with 31 days have a 31st
+    expect(cronEquals('0 0 31 * *', '0 0 31 1,3,5,7,8,10,12 *')).toBe(true);
+    // Either day field matching is enough when both are restricted
+    expect(cronEquals('0 0 1-31 * MON', '0 0 * * *')).toBe(true);
+    expect(cronEquals('0 0 1 * MON', '0 0 1 * *')).toBe(false);
+  });
+
+  it('should treat schedules that never fire as equal', () => {
+    expect(cronEquals('0 0 30 2 *', '0 12 31 4 *')).toBe(true);
+    expect(cronEquals('0 0 30 2 *', '0 0 1 1 *')).toBe(false);
+  });
+
+  it('should account for leap years and the year field', () => {
+    const quartz = { dialect: 'quartz' } as const;
+    expect(cronEquals('0 0 0 L 2 ?', '0 0 0 28,29 2 ?', quartz)).toBe(false);
+    expect(cronEquals('0 0 0 L 2 ? 2025', '0 0 0 28 2 ? 2025', quartz)).toBe(true);
+    expect(cronEquals('0 0 0 L 2 ? 2025', '0 0 0 28 2 ?', quartz)).toBe(false);
+    expect(cronEquals('0 0 0 ? * 2-6', '0 0 0 ? * MON-FRI *', quartz)).toBe(true);
+    expect(cronEquals('0 0 0 * * ? 1970-2099', '0 0 0 * * ?', quartz)).toBe(true);
+    expect(cronEquals('0 0 0 * * ? 1971-2099', '0 0 0 * * ?', quartz)).toBe(false);
+    expect(cronEquals('cron(0 0 * * ? 1970-2199)', 'cron(0 0 * * ? *)', { dialect: 'eventbridge' })).toBe(true);
+  });
+
+  it('should compare macros, rates and @reboot', () => {
+    expect(cronEquals('@daily', '0 0 * * *', { macros: true })).toBe(true);
+    expect(cronEquals('@reboot', '@reboot', { macros: true })).toBe(true);
+    expect(cronEquals('@reboot', '0 0 * * *', { macros: true })).toBe(false);
+    expect(cronEquals('rate(60 minutes)', 'rate(1 hour)', { dialect: 'eventbridge' })).toBe(true);
+    expect(cronEquals('rate(2 hours)', 'rate(1 hour)', { dialect: 'eventbridge' })).toBe(false);
+  });
+
+  it('should throw for invalid expressions', () => {
+    expect(() => cronEquals('* * * * *', '60 * * * *')).toThrow(CronParseError);
+  });
+});
+
+describe('cronIntersects', () => {
+  it('should find the first shared run', () => {
+    // 2024-02-13 is the first Tuesday-Friday 13th of 2024
+    expect(cronIntersects('0 9 * * MON-FRI', '0 9 13 * *', at(2024, 1, 1))?.date).toEqual(at(2024, 2, 13, 9));
+    expect(cronIntersects('*/7 * * * *', '*/11 * * * *', at(2024, 1, 1))?.date).toEqual(at(2024, 1, 1, 1));
+  });
+
+  it('should start strictly after from', () => {
+    expect(cronIntersects('0 * * * *', '0 0 * * *', at(2024, 1, 1))?.date).toEqual(at(2024, 1, 2));
+  });
+
+  it('should mix 5- and 6-field forms', () => {
+    expect(cronIntersects('* * * * *', '0 30 * * * *', at(2024, 1, 1))?.date).toEqual(at(2024, 1, 1, 0, 30));
+    expect(cronIntersects('* * * * *', '30 * * * * *', at(2024, 1, 1))).toBeNull();
+  });
+
+  it('should return null when the schedules never meet', () => {
+    expect(cronIntersects('0 0 * * *', '30 0 * * *', at(2024, 1, 1))).toBeNull();
+    expect(cronIntersects('0 0 31 * *', '0 0 * 2 *', at(2024, 1, 1))).toBeNull();
+  });
+
+  it('should stop at the horizon', () => {
+    // February 29th next falls on a Monday in 2044
+    expect(cronIntersects('0 0 29 2 *', '0 0 * * MON', at(2024, 1, 1))).toBeNull();
+    const until = at(2050, 1, 1);
+    expect(cronIntersects('0 0 29 2 *', '0 0 * * MON', at(2024, 1, 1), { until })?.date).toEqual(at(2044, 2, 29));
+  });
+
+  it('should use the time zone', () => {
+    // Monday 09:00 in Tokyo is still Sunday night in UTC
+    const run = cronIntersects('0 9 * * *', '0 9 * * MON', new Date('2023-12-31T12:00:00Z'), {
+      timeZone: 'Asia/Tokyo',
+    });
+    expect(run?.date).toEqual(new Date('2024-01-01T00:00:00Z'));
+  });
+
+  it('should return null for rates and @reboot', () => {
+    expect(cronIntersects('@reboot', '* * * * *', at(2024, 1, 1), { macros: true })).toBeNull();
+  });
+});
@@ -0,0 +1,39 @@
+import { bench, describe } from 'vitest';
+import { compileCron, isCron, matchesCron, nextRun } from '../src/index.js';
+
+// A mix of tenant schedules, checked against the same tick
+const expressions = Array.from({ length: 1000 }, (_, index) =>
+  [`${index % 60} * * * *`, `*/${(index % 30) + 1} 9-17 * * MON-FRI`, `0 ${index % 24} 1,15 * *`][index % 3] as string
+);
+const compiled = expressions.map((expr) => compileCron(expr));
+const tick = new Date(2024, 0, 15, 10, 30);
+
+describe('validation', () => {
+  bench('isCron', () => {
+    for (const expr of expressions) isCron(expr);
+  });
+
+  bench('compileCron().isValid()', () => {
+    for (const schedule of compiled) schedule.isValid();
+  });
+});
+
+describe('matching', () => {
+  bench('matchesCron', () => {
+    for (const expr of expressions) matchesCron(expr, tick);
+  });
+
+  bench('compileCron().matches()', () => {
+    for (const schedule of compiled) schedule.matches(tick);
+  });
+});
+
+describe('next run', () => {
+  bench('nextRun', () => {
+    for (const expr of expressions) nextRun(expr, tick);
+  });
+
+  bench('compileCron().next()', () => {
+    for (const schedule of compiled) schedule.next(tick);
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { compileCron, matchesCron, nextRun } from '../src/index.js';
+
+// All dates are local time, matching how the scheduler evaluates expressions
+const at = (year: number, month: number, day: number, hour = 0, minute = 0, second = 0) =>
+  new Date(year, month - 1, day, hour, minute, second);
+
+describe('compileCron', () => {
+  it('should report validity without throwing', () => {
+    expect(compileCron('*/5 * * * *').isValid()).toBe(true);
+    const invalid = compileCron('0 25 * * *');
+    expect(invalid.isValid()).toBe(false);
+    expect(invalid.errors[0]?.code).toBe('OUT_OF_RANGE');
+    expect(invalid.matches(at(2024, 1, 15))).toBe(false);
+    expect(invalid.next(at(2024, 1, 15))).toBeNull();
+  });
+
+  it('should keep the source expression', () => {
+    expect(compileCron('0 9 * * MON').source).toBe('0 9 * * MON');
+  });
+
+  it('should match every field', () => {
+    const compiled = compileCron('30 9-17/2 * JAN-MAR MON-FRI');
+    expect(compiled.matches(at(2024, 1, 15, 9, 30))).toBe(true);
+    expect(compiled.matches(at(2024, 1, 15, 10, 30))).toBe(false);
+    expect(compiled.matches(at(2024, 1, 13, 9, 30))).toBe(false);
+    expect(compiled.matches(at(2024, 4, 15, 9, 30))).toBe(false);
+  });
+
+  it('should match minutes and seconds above 31', () => {
+    const compiled = compileCron('45 59 * * * *', { seconds: true });
+    expect(compiled.matches(at(2024, 1, 15, 10, 59, 45))).toBe(true);
+    expect(compiled.matches(at(2024, 1, 15, 10, 59, 44))).toBe(false);
+    expect(compiled.matches(at(2024, 1, 15, 10, 27, 45))).toBe(false);
+  });
+
+  it('should follow the day rules of isCron', () => {
+    expect(compileCron('0 0 * * 7').matches(at(2024, 1, 14))).toBe(true);
+    expect(compileCron('0 0 ? * MON').matches(at(2024, 1, 15))).toBe(true);
+    expect(compileCron('0 0 1 * MON').matches(at(2024, 1, 15))).toBe(true);
+    expect(compileCron('0 0 1 * MON').matches(at(2024, 1, 16))).toBe(false);
+  });
+
+  it('should support Quartz calendar items and years', () => {
+    const lastFriday = compileCron('0 0 0 ? * 6L 2024', { dialect: 'quartz' });
+    expect(lastFriday.matches(at(2024, 1, 26))).toBe(true);
+    expect(lastFriday.matches(at(2024, 1, 19))).toBe(false);
+    expect(lastFriday.matches(at(2025, 1, 31))).toBe(false);
+  });
+
+  it('should agree with matchesCron and nextRun', () => {
+    const expressions = ['*/7 * * * *', '0 0 1,15 * FRI', '15 */3 * * 1-5', '0 0 12 L * ?'];
+    for (const expr of expressions) {
+      const options = expr.includes('L') ? { dialect: 'quartz' as const } : {};
+      const compiled = compileCron(expr, options);
+      for (let time = at(2024, 2, 27).getTime(); time < at(2024, 3, 3).getTime(); time += 37 * 60 * 1000) {
+        const date = new Date(time);
+        expect(compiled.matches(date)).toBe(matchesCron(expr, date, options));
+        expect(compiled.next(date)).toEqual(nextRun(expr, date, options));
+      }
+    }
+  });
+
+  it('should use the time zone and DST options', () => {
+    const timeZone = 'America/New_York';
+    const gapEnd = new Date('2024-03-10T07:00:00Z');
+    expect(compileCron('0 9 * * *', { timeZone: 'Asia/Tokyo' }).matches(new Date('2024-01-01T00:00:00Z'))).toBe(true);
+    expect(compileCron('30 2 * * *', { timeZone }).matches(gapEnd)).toBe(true);
+    expect(compileCron('30 2 * * *', { timeZone, skippedTime: 'skip' }).matches(gapEnd)).toBe(false);
+    expect(compileCron('30 2 * * *', { timeZone }).next(new Date('2024-03-10T00:00:00Z'))?.date).toEqual(gapEnd);
+  });
+
+  it('should never match expressions without a schedule', () => {
+    const reboot = compileCron('@reboot', { macros: true });
+    expect(reboot.isValid()).toBe(true);
+    expect(reboot.matches(at(2024, 1, 15))).toBe(false);
+    expect(reboot.next(at(2024, 1, 15))).toBeNull();
+  });
+
+  it('should throw for configuration errors', () => {
+    expect(() => compileCron('H * * * *', { dialect: 'jenkins' })).toThrow(TypeError);
+    expect(() => compileCron('0 0 * * *', { timeZone: 'Mars/Olympus' })).toThrow(RangeError);
+  });
+
+  it('should not throw for configuration errors when the expression is invalid', () => {
+    expect(compileCron('H 25 * * *', { dialect: 'jenkins' }).isValid()).toBe(false);
+    expect(compileCron('0 25 * * *', { timeZone: 'Mars/Olympus' }).errors[0]?.code).toBe('OUT_OF_RANGE');
+  });
+});
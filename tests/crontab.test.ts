@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { parseCrontab } from '../src/index.js';
+
+describe('parseCrontab', () => {
+  it('should parse comments, blank lines, environment and jobs', () => {
+    const text = [
+      '# nightly jobs',
+      '',
+      'SHELL=/bin/bash',
+      'MAILTO = "ops@example.com"',
+      '30 2 * * * /usr/bin/backup --full',
+      '',
+    ].join('\n');
+    const result = parseCrontab(text);
+    expect(result.valid).toBe(true);
+    expect(result.errors).toEqual([]);
+    expect(result.lines.map((line) => line.type)).toEqual(['comment', 'blank', 'environment', 'environment', 'job']);
+    expect(result.lines[0]).toMatchObject({ line: 1, comment: ' nightly jobs' });
+    expect(result.lines[2]).toMatchObject({ line: 3, name: 'SHELL', value: '/bin/bash' });
+    expect(result.lines[3]).toMatchObject({ line: 4, name: 'MAILTO', value: 'ops@example.com' });
+    expect(result.lines[4]).toMatchObject({
+      type: 'job',
+      line: 5,
+      schedule: '30 2 * * *',
+      command: '/usr/bin/backup --full',
+    });
+  });
+
+  it('should attach the parsed schedule to jobs', () => {
+    const [job] = parseCrontab('*/5 9-17 * * MON-FRI check.sh').lines;
+    expect(job).toMatchObject({ type: 'job' });
+    if (job?.type !== 'job') return;
+    expect(job.ast?.fields.map((field) => field.text)).toEqual(['*/5', '9-17', '*', '*', 'MON-FRI']);
+    expect(job.user).toBeUndefined();
+  });
+
+  it('should accept macros by default', () => {
+    const result = parseCrontab('@reboot /usr/bin/start\n@daily  rotate-logs');
+    expect(result.valid).toBe(true);
+    expect(result.lines[1]).toMatchObject({ schedule: '@daily', command: 'rotate-logs' });
+    expect(parseCrontab('@daily rotate-logs', { macros: false }).errors[0]?.code).toBe('UNKNOWN_MACRO');
+  });
+
+  it('should report schedule errors with line and column numbers', () => {
+    const text = 'SHELL=/bin/sh\n  0 25 * * * backup.sh\n';
+    const { valid, errors } = parseCrontab(text);
+    expect(valid).toBe(false);
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toMatchObject({ code: 'OUT_OF_RANGE', line: 2, column: 5, endColumn: 7 });
+    const error = errors[0];
+    expect(error && text.slice(error.start, error.end)).toBe('25');
+  });
+
+  it('should report every invalid line', () => {
+    const { errors } = parseCrontab('0 0 * * 8 a\n# ok\n0 0 32 * * b\n0 0 * FOO * c');
+    expect(errors.map((error) => [error.line, error.code])).toEqual([
+      [1, 'OUT_OF_RANGE'],
+      [3, 'OUT_OF_RANGE'],
+      [4, 'UNKNOWN_ALIAS'],
+    ]);
+  });
+
+  it('should report missing fields and commands', () => {
+    expect(parseCrontab('0 0 * *').errors[0]).toMatchObject({ code: 'FIELD_COUNT', column: 1, endColumn: 8 });
+    expect(parseCrontab('0 0 * * *').errors[0]).toMatchObject({ code: 'MISSING_COMMAND', column: 10 });
+  });
+
+  it('should handle CRLF line endings', () => {
+    const { lines, errors } = parseCrontab('A=1\r\n0 0 * * * run\r\n0 60 * * * run\r\n');
+    expect(lines).toHaveLength(3);
+    expect(lines[1]).toMatchObject({ text: '0 0 * * * run', command: 'run' });
+    expect(errors[0]).toMatchObject({ line: 3, column: 3, endColumn: 5 });
+  });
+
+  it('should return no lines for an empty file', () => {
+    expect(parseCrontab('')).toEqual({ valid: true, lines: [], errors: [] });
+  });
+
+  describe('system crontabs', () => {
+    it('should read the user column', () => {
+      const result = parseCrontab('17 * * * * root cd / && run-parts /etc/cron.hourly', { system: true });
+      expect(result.valid).toBe(true);
+      expect(result.lines[0]).toMatchObject({ user: 'root', command: 'cd / && run-parts /etc/cron.hourly' });
+    });
+
+    it('should read the user column after macros', () => {
+      expect(parseCrontab('@hourly www-data php cron.php', { system: true }).lines[0]).toMatchObject({
+        schedule: '@hourly',
+        user: 'www-data',
+        command: 'php cron.php',
+      });
+    });
+
+    it('should report a missing user or command', () => {
+      expect(parseCrontab('0 0 * * *', { system: true }).errors[0]?.code).toBe('MISSING_USER');
+      expect(parseCrontab('0 0 * * * root', { system: true }).errors[0]).toMatchObject({
+        code: 'MISSING_COMMAND',
+        message: 'Expected a command after the user',
+      });
+    });
+  });
+
+  it('should pass validation options to every schedule', () => {
+    expect(parseCrontab('0 */5 * * * * run', { seconds: true }).lines[0]).toMatchObject({ command: 'run' });
+    expect(parseCrontab('0 0 30 2 * run', { strict: true }).errors[0]?.code).toBe('IMPOSSIBLE_SCHEDULE');
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import { describeCron, CronParseError } from '../src/index.js';
+
+describe('describeCron', () => {
+  describe('times', () => {
+    it('should describe the documented example', () => {
+      expect(describeCron('0 9-17 * * MON-FRI')).toBe('Every hour from 09:00 to 17:00, Monday through Friday');
+    });
+
+    it('should describe fixed times', () => {
+      expect(describeCron('0 0 * * *')).toBe('At 00:00');
+      expect(describeCron('30 6 * * *')).toBe('At 06:30');
+      expect(describeCron('0 6,18 * * *')).toBe('At 06:00 and 18:00');
+      expect(describeCron('0 9,12,15 * * *')).toBe('At 09:00, 12:00 and 15:00');
+    });
+
+    it('should describe hourly schedules', () => {
+      expect(describeCron('0 * * * *')).toBe('Every hour');
+      expect(describeCron('30 * * * *')).toBe('Every hour at minute 30');
+      expect(describeCron('0 */2 * * *')).toBe('Every 2 hours');
+      expect(describeCron('30 */2 * * *')).toBe('Every 2 hours, at minute 30');
+      expect(describeCron('0 8-18/2 * * *')).toBe('Every 2 hours from 08:00 through 18:00');
+    });
+
+    it('should describe minute fields', () => {
+      expect(describeCron('* * * * *')).toBe('Every minute');
+      expect(describeCron('*/15 * * * *')).toBe('Every 15 minutes');
+      expect(describeCron('5/10 * * * *')).toBe('Every 10 minutes starting at minute 5');
+      expect(describeCron('0-30 * * * *')).toBe('Every minute from minute 0 through 30');
+      expect(describeCron('0,15,30,45 * * * *')).toBe('At minutes 0, 15, 30 and 45');
+      expect(describeCron('1-5,10,*/20 * * * *')).toBe('Every 20 minutes and at minutes 1 through 5 and 10');
+    });
+
+    it('should describe minutes within restricted hours', () => {
+      expect(describeCron('*/15 9 * * *')).toBe('Every 15 minutes, between 09:00 and 09:59');
+      expect(describeCron('*/15 9-17 * * *')).toBe('Every 15 minutes, between 09:00 and 17:59');
+      expect(describeCron('*/10 9,12,15 * * *')).toBe('Every 10 minutes, during the 09:00, 12:00 and 15:00 hours');
+    });
+
+    it('should support a 12-hour clock', () => {
+      expect(describeCron('30 6 * * *', { hour12: true })).toBe('At 6:30 AM');
+      expect(describeCron('0 0,12 * * *', { hour12: true })).toBe('At 12:00 AM and 12:00 PM');
+      expect(describeCron('0 9-17 * * *', { hour12: true })).toBe('Every hour from 9:00 AM to 5:00 PM');
+    });
+  });
+
+  describe('seconds', () => {
+    it('should describe the seconds field', () => {
+      expect(describeCron('*/5 * * * * *', { seconds: true })).toBe('Every 5 seconds');
+      expect(describeCron('* * * * * *', { seconds: true })).toBe('Every second');
+      expect(describeCron('15 * * * * *', { seconds: true })).toBe('At second 15, every minute');
+      expect(describeCron('15 30 9 * * *', { seconds: true })).toBe('At 09:30:15');
+    });
+
+    it('should omit a zero seconds field', () => {
+      expect(describeCron('0 * * * * *', { seconds: true })).toBe('Every minute');
+      expect(describeCron('0 0 12 * * ?', { seconds: true })).toBe('At 12:00');
+    });
+  });
+
+  describe('dates', () => {
+    it('should describe days of the month', () => {
+      expect(describeCron('0 0 1 * *')).toBe('At 00:00, on the 1st of the month');
+      expect(describeCron('0 0 1,15 * *')).toBe('At 00:00, on the 1st and 15th of the month');
+      expect(describeCron('0 0 1-7 * *')).toBe('At 00:00, on the 1st through 7th of the month');
+      expect(describeCron('0 0 */2 * *')).toBe('At 00:00, every 2 days');
+      expect(describeCron('0 0 1-15/2 * *')).toBe('At 00:00, every 2 days from the 1st through the 15th');
+      expect(describeCron('0 0 22 * *')).toBe('At 00:00, on the 22nd of the month');
+      expect(describeCron('0 0 11 * *')).toBe('At 00:00, on the 11th of the month');
+    });
+
+    it('should describe days of the week', () => {
+      expect(describeCron('0 0 * * 1,3,5')).toBe('At 00:00, on Monday, Wednesday and Friday');
+      expect(describeCron('0 0 * * */2')).toBe('At 00:00, on Sunday, Tuesday, Thursday and Saturday');
+      expect(describeCron('0 0 * * 7')).toBe('At 00:00, on Sunday');
+      expect(describeCron('0 0 * * sun')).toBe('At 00:00, on Sunday');
+    });
+
+    it('should describe months', () => {
+      expect(describeCron('0 0 1 JAN *')).toBe('At 00:00, on the 1st of the month, in January');
+      expect(describeCron('0 0 1 JAN-MAR *')).toBe('At 00:00, on the 1st of the month, January through March');
+      expect(describeCron('0 0 1 */3 *')).toBe('At 00:00, on the 1st of the month, every 3 months');
+      expect(describeCron('0 0 1 1,7 *')).toBe('At 00:00, on the 1st of the month, in January and July');
+    });
+
+    it('should treat ? like *', () => {
+      expect(describeCron('0 0 ? * SUN')).toBe('At 00:00, on Sunday');
+    });
+
+    it('should expand wrapped ranges with steps in a list', () => {
+      const options = { wrapRanges: true };
+      expect(describeCron('0 22-2/2,12 * * *', options)).toBe('At minute 0, during the 22:00, 00:00, 02:00 and 12:00 hours');
+      expect(describeCron('0 0 28-3/2,15 * *', options)).toBe('At 00:00, on the 28th, 30th, 1st, 3rd and 15th of the month');
+      expect(describeCron('0 0 * * FRI-MON/2,WED')).toBe('At 00:00, on Sunday, Wednesday and Friday');
+    });
+
+    it('should join restricted day fields with "or"', () => {
+      expect(describeCron('0 0 15 * MON')).toBe('At 00:00, on the 15th of the month or on Monday');
+    });
+  });
+
+  describe('verbose wording', () => {
+    it('should spell out implicit parts', () => {
+      expect(describeCron('*/15 * * * *', { verbose: true })).toBe('Every 15 minutes, every hour, every day');
+      expect(describeCron('0 9 * * *', { verbose: true })).toBe('At 09:00, every day');
+      expect(describeCron('0 9 * JAN *', { verbose: true })).toBe('At 09:00, every day, in January');
+      expect(describeCron('0 9 * * MON', { verbose: true })).toBe('At 09:00, on Monday');
+    });
+  });
+
+  it('should throw for invalid expressions', () => {
+    expect(() => describeCron('0 25 * * *')).toThrow(CronParseError);
+    expect(() => describeCron('* * * * * *')).toThrow(CronParseError);
+  });
+});
@@ -0,0 +1,151 @@
+import { describe, it, expect } from 'vitest';
+import { isCron, validateCron, parseCron, nextRun, upcomingRuns, describeCron } from '../src/index.js';
+
+const eventbridge = { dialect: 'eventbridge' } as const;
+
+describe('EventBridge dialect', () => {
+  describe('cron()', () => {
+    it('should accept the documented examples', () => {
+      expect(isCron('cron(0 10 * * ? *)', eventbridge)).toBe(true);
+      expect(isCron('cron(15 12 * * ? *)', eventbridge)).toBe(true);
+      expect(isCron('cron(0 18 ? * MON-FRI *)', eventbridge)).toBe(true);
+      expect(isCron('cron(0 8 1 * ? *)', eventbridge)).toBe(true);
+      expect(isCron('cron(0/15 * * * ? *)', eventbridge)).toBe(true);
+      expect(isCron('cron(0/10 * ? * MON-FRI *)', eventbridge)).toBe(true);
+      expect(isCron('cron(0/5 8-17 ? * MON-FRI *)', eventbridge)).toBe(true);
+      expect(isCron('cron(0 9 ? * 2#1 *)', eventbridge)).toBe(true);
+    });
+
+    it('should require the wrapper', () => {
+      expect(validateCron('0 10 * * ? *', eventbridge).errors).toEqual([
+        {
+          code: 'SYNTAX',
+          message: 'EventBridge expressions must be written as cron(...) or rate(...)',
+          start: 0,
+          end: 12,
+        },
+      ]);
+      expect(isCron('cron(0 10 * * ? *', eventbridge)).toBe(false);
+      expect(isCron('CRON(0 10 * * ? *)', eventbridge)).toBe(false);
+      expect(isCron('  cron(0 10 * * ? *)  ', eventbridge)).toBe(true);
+    });
+
+    it('should require the year field', () => {
+      expect(validateCron('cron(0 10 * * ?)', eventbridge).errors[0]).toMatchObject({
+        code: 'FIELD_COUNT',
+        message: 'Expected 6 fields but found 5 (EventBridge requires the year field)',
+        start: 5,
+        end: 15,
+      });
+      expect(validateCron('cron(0 0 10 * * ? *)', eventbridge).errors[0]).toMatchObject({ code: 'FIELD_COUNT' });
+      expect(validateCron('cron()', eventbridge).errors[0]).toMatchObject({ code: 'EMPTY_EXPRESSION' });
+    });
+
+    it('should check years up to 2199', () => {
+      expect(isCron('cron(0 0 1 1 ? 2199)', eventbridge)).toBe(true);
+      expect(validateCron('cron(0 0 1 1 ? 2200)', eventbridge).errors[0]).toMatchObject({
+        code: 'OUT_OF_RANGE',
+        field: 'year',
+        start: 15,
+        end: 19,
+      });
+    });
+
+    it('should require exactly one ? in the day fields', () => {
+      expect(validateCron('cron(0 10 * * * *)', eventbridge).errors[0]).toMatchObject({
+        code: 'DAY_FIELD_CONFLICT',
+        message: 'Either day of month or day of week must be "?" in EventBridge expressions',
+      });
+      expect(validateCron('cron(0 10 ? * ? *)', eventbridge).errors[0]).toMatchObject({ code: 'DAY_FIELD_CONFLICT' });
+    });
+
+    it('should number days of the week 1-7 with SUN=1', () => {
+      expect(validateCron('cron(0 10 ? * 0 *)', eventbridge).errors[0]).toMatchObject({
+        code: 'OUT_OF_RANGE',
+        message: 'Value 0 is out of range for day of week (1-7)',
+      });
+      expect(parseCron('cron(0 10 ? * 2 *)', eventbridge).fields[4]?.items[0]).toMatchObject({ value: 1 });
+    });
+
+    it('should accept L, W and #', () => {
+      expect(isCron('cron(0 10 L * ? *)', eventbridge)).toBe(true);
+      expect(isCron('cron(0 10 15W * ? *)', eventbridge)).toBe(true);
+      expect(isCron('cron(0 10 ? * 6L *)', eventbridge)).toBe(true);
+      expect(isCron('cron(0 10 ? * 6#3 *)', eventbridge)).toBe(true);
+      expect(isCron('cron(0 10 L,15 * ? *)', eventbridge)).toBe(false);
+    });
+
+    it('should report spans in the original string', () => {
+      expect(validateCron('cron(60 10 * * ? *)', eventbridge).errors[0]).toMatchObject({
+        field: 'minute',
+        start: 5,
+        end: 7,
+      });
+      expect(parseCron('cron(0 10 * * ? *)', eventbridge).fields[1]?.span).toEqual({ start: 7, end: 9 });
+    });
+
+    it('should compute run times', () => {
+      const from = new Date(2024, 0, 1);
+      expect(nextRun('cron(15 10 ? * 6L 2025)', from, eventbridge)?.date).toEqual(new Date(2025, 0, 31, 10, 15));
+    });
+  });
+
+  describe('rate()', () => {
+    it('should accept minutes, hours and days', () => {
+      expect(isCron('rate(1 minute)', eventbridge)).toBe(true);
+      expect(isCron('rate(5 minutes)', eventbridge)).toBe(true);
+      expect(isCron('rate(1 hour)', eventbridge)).toBe(true);
+      expect(isCron('rate(12 hours)', eventbridge)).toBe(true);
+      expect(isCron('rate(7 days)', eventbridge)).toBe(true);
+    });
+
+    it('should parse the interval', () => {
+      const ast = parseCron('rate(5 minutes)', eventbridge);
+      expect(ast.trigger).toBe('rate');
+      expect(ast.rate).toEqual({ value: 5, unit: 'minute' });
+      expect(ast.fields).toEqual([]);
+    });
+
+    it('should require a positive integer', () => {
+      expect(validateCron('rate(0 minutes)', eventbridge).errors).toEqual([
+        { code: 'INVALID_RATE', message: 'Rate value must be a positive integer ("0")', start: 5, end: 6 },
+      ]);
+      expect(isCron('rate(1.5 hours)', eventbridge)).toBe(false);
+      expect(isCron('rate(-1 hours)', eventbridge)).toBe(false);
+    });
+
+    it('should require a known unit', () => {
+      expect(validateCron('rate(2 weeks)', eventbridge).errors[0]).toMatchObject({
+        code: 'INVALID_RATE',
+        message: 'Unknown rate unit "weeks" (expected minutes, hours or days)',
+      });
+      expect(validateCron('rate(5)', eventbridge).errors[0]).toMatchObject({ code: 'INVALID_RATE' });
+    });
+
+    it('should require singular units for 1 and plural units otherwise', () => {
+      expect(validateCron('rate(1 minutes)', eventbridge).errors[0]).toMatchObject({
+        code: 'INVALID_RATE',
+        message: 'Use "minute" for a rate of 1',
+      });
+      expect(validateCron('rate(5 hour)', eventbridge).errors[0]).toMatchObject({
+        code: 'INVALID_RATE',
+        message: 'Use "hours" for a rate above 1',
+      });
+    });
+
+    it('should not produce run times', () => {
+      expect(nextRun('rate(5 minutes)', new Date(), eventbridge)).toBeNull();
+      expect(upcomingRuns('rate(5 minutes)', new Date(), eventbridge).next().done).toBe(true);
+    });
+
+    it('should be described', () => {
+      expect(describeCron('rate(5 minutes)', eventbridge)).toBe('Every 5 minutes');
+      expect(describeCron('rate(1 day)', eventbridge)).toBe('Every day');
+    });
+  });
+
+  it('should not accept wrappers in other dialects', () => {
+    expect(isCron('cron(0 10 * * ? *)')).toBe(false);
+    expect(isCron('rate(5 minutes)')).toBe(false);
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import { isCron, validateCron, parseCron, resolveJenkinsHash, CronParseError } from '../src/index.js';
+
+const strict = { strict: true } as const;
+
+describe('strict mode', () => {
+  it('should be off by default', () => {
+    expect(isCron('0 0 30 FEB *')).toBe(true);
+    expect(isCron('0 0 31 4,6,9,11 *')).toBe(true);
+  });
+
+  it('should reject days that never occur in the given months', () => {
+    expect(validateCron('0 0 30 FEB *', strict).errors).toEqual([
+      { code: 'IMPOSSIBLE_SCHEDULE', message: 'Day 30 never occurs in February', start: 4, end: 10 },
+    ]);
+    expect(validateCron('0 0 31 4,6,9,11 *', strict).errors).toEqual([
+      {
+        code: 'IMPOSSIBLE_SCHEDULE',
+        message: 'Day 31 never occurs in April, June, September and November',
+        start: 4,
+        end: 15,
+      },
+    ]);
+    expect(validateCron('0 0 30,31 2 *', strict).errors[0]?.message).toBe('Days 30 and 31 never occur in February');
+  });
+
+  it('should accept schedules that fire in some month', () => {
+    expect(isCron('0 0 31 * *', strict)).toBe(true);
+    expect(isCron('0 0 31 2,3 *', strict)).toBe(true);
+    expect(isCron('0 0 30 1-6 *', strict)).toBe(true);
+    expect(isCron('@monthly', { ...strict, macros: true })).toBe(true);
+  });
+
+  it('should accept February 29', () => {
+    expect(isCron('0 0 29 2 *', strict)).toBe(true);
+    expect(isCron('0 0 0 29 2 ? 2024', { ...strict, dialect: 'quartz' })).toBe(true);
+  });
+
+  it('should reject February 29 when the year field allows no leap years', () => {
+    expect(validateCron('0 0 0 29 2 ? 2025-2027', { ...strict, dialect: 'quartz' }).errors).toEqual([
+      {
+        code: 'IMPOSSIBLE_SCHEDULE',
+        message: 'It can only fire on February 29, and the year field allows no leap years',
+        start: 6,
+        end: 22,
+      },
+    ]);
+    expect(isCron('cron(0 0 29 2 ? 2100)', { ...strict, dialect: 'eventbridge' })).toBe(false);
+  });
+
+  it('should accept a day of week when both day fields are restricted', () => {
+    // Either field matching is enough, so this runs every Monday in February
+    expect(isCron('0 0 31 2 MON', strict)).toBe(true);
+  });
+
+  it('should check Quartz calendar items', () => {
+    const quartz = { ...strict, dialect: 'quartz' } as const;
+    expect(isCron('0 0 0 L 2 ?', quartz)).toBe(true);
+    expect(isCron('0 0 0 L-29 3 ?', quartz)).toBe(true);
+    expect(validateCron('0 0 0 L-30 2 ?', quartz).errors[0]).toMatchObject({
+      code: 'IMPOSSIBLE_SCHEDULE',
+      message: 'No date matches the day of month, month and day of week fields',
+    });
+    expect(isCron('0 0 0 31W 4 ?', quartz)).toBe(false);
+    expect(isCron('0 0 0 ? 2 5#5 2024', quartz)).toBe(true);
+    expect(isCron('0 0 0 ? 2 5#5 2025', quartz)).toBe(false);
+    expect(isCron('0 0 0 ? 2 6#5 2024', quartz)).toBe(false);
+    expect(validateCron('0 0 0 ? 2 6#5 2024', quartz).errors[0]?.message).toBe(
+      'No date matching the day and month fields falls in the allowed years'
+    );
+  });
+
+  it('should check every value Jenkins H can pick without a seed', () => {
+    const jenkins = { ...strict, dialect: 'jenkins' } as const;
+    expect(validateCron('0 0 H(29-31) 2 *', jenkins).errors).toEqual([
+      {
+        code: 'IMPOSSIBLE_SCHEDULE',
+        message: 'Day 31 never occurs in February (for some hash seeds)',
+        start: 4,
+        end: 14,
+      },
+    ]);
+    expect(isCron('0 0 31 H *', jenkins)).toBe(false);
+    expect(isCron('0 0 H(29-31)/3 2 *', jenkins)).toBe(false);
+    expect(isCron('0 0 H(29-31) H(1-2),3 *', jenkins)).toBe(true);
+    expect(isCron('0 0 H(28-31)/2 2 *', jenkins)).toBe(true);
+    expect(isCron('H H H H H', jenkins)).toBe(true);
+  });
+
+  it('should check the value Jenkins H picks with a seed', () => {
+    const jenkins = { ...strict, dialect: 'jenkins' } as const;
+    expect(resolveJenkinsHash('0 0 H(29-31) 2 *', 'e')).toBe('0 0 29 2 *');
+    expect(isCron('0 0 H(29-31) 2 *', { ...jenkins, hashSeed: 'e' })).toBe(true);
+    expect(resolveJenkinsHash('0 0 H(29-31) 2 *', 'a')).toBe('0 0 31 2 *');
+    expect(validateCron('0 0 H(29-31) 2 *', { ...jenkins, hashSeed: 'a' }).errors[0]?.message).toBe(
+      'Day 31 never occurs in February'
+    );
+  });
+
+  it('should make parseCron throw', () => {
+    expect(() => parseCron('0 0 30 2 *', strict)).toThrow(CronParseError);
+    expect(parseCron('0 0 30 2 *').fields).toHaveLength(5);
+  });
+
+  it('should only run once the expression is otherwise valid', () => {
+    expect(validateCron('0 0 30 2 8', strict).errors.map((error) => error.code)).toEqual(['OUT_OF_RANGE']);
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeFrequency, CronParseError } from '../src/index.js';
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+describe('analyzeFrequency', () => {
+  it('should count runs of a fixed interval', () => {
+    expect(analyzeFrequency('*/15 * * * *')).toEqual({
+      minInterval: 15 * MINUTE,
+      maxInterval: 15 * MINUTE,
+      averageInterval: 15 * MINUTE,
+      runsPerHour: 4,
+      runsPerDay: 96,
+      runsPerMonth: expect.closeTo((96 * 365.2425) / 12, 6),
+      runsPerYear: expect.closeTo(96 * 365.2425, 6),
+      tooFrequent: false,
+    });
+  });
+
+  it('should restart uneven steps at the top of each hour', () => {
+    const frequency = analyzeFrequency('*/7 * * * *');
+    expect(frequency?.minInterval).toBe(4 * MINUTE);
+    expect(frequency?.maxInterval).toBe(7 * MINUTE);
+    expect(frequency?.runsPerHour).toBe(9);
+    expect(frequency?.averageInterval).toBe(HOUR / 9);
+  });
+
+  it('should handle lists and ranges in every field', () => {
+    const frequency = analyzeFrequency('0,30 9-17 * * *');
+    expect(frequency?.runsPerDay).toBe(18);
+    expect(frequency?.minInterval).toBe(30 * MINUTE);
+    // 17:30 to 09:00 the next day
+    expect(frequency?.maxInterval).toBe(15 * HOUR + 30 * MINUTE);
+  });
+
+  it('should weight weekdays and month lengths exactly', () => {
+    const weekdays = analyzeFrequency('0 9 * * MON-FRI');
+    expect(weekdays?.runsPerDay).toBeCloseTo(5 / 7, 12);
+    expect(weekdays?.minInterval).toBe(DAY);
+    expect(weekdays?.maxInterval).toBe(3 * DAY);
+
+    const monthly = analyzeFrequency('0 0 31 * *');
+    expect(monthly?.runsPerYear).toBe(7);
+    expect(monthly?.minInterval).toBe(31 * DAY);
+    expect(monthly?.maxInterval).toBe(61 * DAY);
+  });
+
+  it('should count leap days over the 400-year cycle', () => {
+    const leapDay = analyzeFrequency('0 0 29 2 *');
+    expect(leapDay?.runsPerYear).toBe(0.2425);
+    expect(leapDay?.minInterval).toBe(1461 * DAY);
+    // 2096 to 2104, skipping 2100
+    expect(leapDay?.maxInterval).toBe(2921 * DAY);
+  });
+
+  it('should use either day field when both are restricted', () => {
+    // Every Monday, plus the 1st of each month that is not a Monday
+    const mondays = analyzeFrequency('0 0 * * MON')?.runsPerYear ?? 0;
+    const either = analyzeFrequency('0 0 1 * MON')?.runsPerYear ?? 0;
+    expect(either).toBeGreaterThan(mondays + 10);
+    expect(either).toBeLessThan(mondays + 12);
+    expect(analyzeFrequency('0 0 1 * MON')?.maxInterval).toBe(7 * DAY);
+  });
+
+  it('should flag expressions more frequent than the threshold', () => {
+    const everySecond = analyzeFrequency('* * * * * *', { seconds: true });
+    expect(everySecond?.minInterval).toBe(SECOND);
+    expect(everySecond?.runsPerHour).toBe(3600);
+    expect(everySecond?.tooFrequent).toBe(true);
+    expect(analyzeFrequency('* * * * *')?.tooFrequent).toBe(false);
+    expect(analyzeFrequency('*/5 * * * *', { threshold: 10 * MINUTE })?.tooFrequent).toBe(true);
+  });
+
+  it('should analyze the listed years of a year field', () => {
+    const options = { dialect: 'quartz' } as const;
+    const twice = analyzeFrequency('0 0 0 1 1 ? 2030,2032', options);
+    expect(twice?.runsPerYear).toBe(1);
+    expect(twice?.minInterval).toBe(730 * DAY);
+    expect(twice?.averageInterval).toBe(730 * DAY);
+
+    const once = analyzeFrequency('0 0 0 1 1 ? 2030', options);
+    expect(once?.minInterval).toBeNull();
+    expect(once?.averageInterval).toBeNull();
+    expect(once?.runsPerYear).toBe(1);
+  });
+
+  it('should analyze EventBridge rates', () => {
+    const frequency = analyzeFrequency('rate(5 minutes)', { dialect: 'eventbridge' });
+    expect(frequency?.minInterval).toBe(5 * MINUTE);
+    expect(frequency?.runsPerHour).toBeCloseTo(12, 10);
+  });
+
+  it('should return null for expressions that never fire', () => {
+    expect(analyzeFrequency('0 0 30 2 *')).toBeNull();
+    expect(analyzeFrequency('@reboot', { macros: true })).toBeNull();
+  });
+
+  it('should throw for invalid expressions', () => {
+    expect(() => analyzeFrequency('0 25 * * *')).toThrow(CronParseError);
+  });
+});
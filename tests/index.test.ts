@@ -1,5 +1,16 @@
 import { describe, it, expect } from 'vitest';
-import isCron, { isStandardCron, isExtendedCron, type CronExpression, type IsCronOptions } from '../src/index.js';
+import { expectTypeOf } from 'vitest';
+import isCron, {
+  isStandardCron,
+  isExtendedCron,
+  type CronExpression,
+  type EventBridgeCronExpression,
+  type ExtendedCronExpression,
+  type IsCronOptions,
+  type JenkinsCronExpression,
+  type QuartzCronExpression,
+  type StandardCronExpression,
+} from '../src/index.js';
 
 describe('isCron', () => {
   describe('basic validation', () => {
@@ -453,6 +464,44 @@ describe('TypeScript type guard', () => {
       expect(typeof cron).toBe('string');
     }
   });
+
+  it('should narrow to the brand of the format', () => {
+    const value: unknown = '0 0 12 * * ?';
+
+    if (isCron(value)) expectTypeOf(value).toEqualTypeOf<StandardCronExpression>();
+    if (isCron(value, { alias: false, seconds: false })) expectTypeOf(value).toEqualTypeOf<StandardCronExpression>();
+    if (isCron(value, { seconds: true })) expectTypeOf(value).toEqualTypeOf<ExtendedCronExpression>();
+    if (isCron(value, { dialect: 'quartz' })) expectTypeOf(value).toEqualTypeOf<QuartzCronExpression>();
+    if (isCron(value, { dialect: 'jenkins' })) expectTypeOf(value).toEqualTypeOf<JenkinsCronExpression>();
+    if (isCron(value, { dialect: 'eventbridge' })) expectTypeOf(value).toEqualTypeOf<EventBridgeCronExpression>();
+    if (isStandardCron(value)) expectTypeOf(value).toEqualTypeOf<StandardCronExpression>();
+    if (isExtendedCron(value)) expectTypeOf(value).toEqualTypeOf<ExtendedCronExpression>();
+    expect(isCron(value, { dialect: 'quartz' })).toBe(true);
+  });
+
+  it('should narrow to CronExpression when the options are not known', () => {
+    const value: unknown = '* * * * *';
+    const options: IsCronOptions = {};
+
+    if (isCron(value, options)) expectTypeOf(value).toEqualTypeOf<CronExpression>();
+    expect(isCron(value, options)).toBe(true);
+  });
+
+  it('should keep brands apart but assignable to CronExpression', () => {
+    expectTypeOf<StandardCronExpression>().toMatchTypeOf<CronExpression>();
+    expectTypeOf<ExtendedCronExpression>().toMatchTypeOf<CronExpression>();
+    expectTypeOf<QuartzCronExpression>().toMatchTypeOf<CronExpression>();
+    expectTypeOf<StandardCronExpression>().not.toMatchTypeOf<ExtendedCronExpression>();
+    expectTypeOf<ExtendedCronExpression>().not.toMatchTypeOf<StandardCronExpression>();
+    expectTypeOf<CronExpression>().not.toMatchTypeOf<StandardCronExpression>();
+
+    const value: unknown = '* * * * *';
+    if (isStandardCron(value)) {
+      // @ts-expect-error a 5-field expression is not an expression with seconds
+      const extended: ExtendedCronExpression = value;
+      expect(extended).toBe('* * * * *');
+    }
+  });
 });
 
 describe('options interface', () => {
@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import { isCron, validateCron, parseCron, nextRun, describeCron, resolveJenkinsHash } from '../src/index.js';
+
+const jenkins = { dialect: 'jenkins' } as const;
+
+describe('Jenkins dialect', () => {
+  describe('validation', () => {
+    it('should accept H forms in every field', () => {
+      expect(isCron('H H H H H', jenkins)).toBe(true);
+      expect(isCron('H(0-29) H(9-17) H(1-15) H(1-6) H(1-5)', jenkins)).toBe(true);
+      expect(isCron('H/15 H/2 H/3 H/4 H/2', jenkins)).toBe(true);
+      expect(isCron('H(0-29)/10 * * * *', jenkins)).toBe(true);
+      expect(isCron('H(0-29),H(30-59) * * * *', jenkins)).toBe(true);
+      expect(isCron('H H * * * H', { ...jenkins, seconds: true })).toBe(true);
+    });
+
+    it('should still accept standard syntax', () => {
+      expect(isCron('*/5 9-17 * JAN MON-FRI', jenkins)).toBe(true);
+    });
+
+    it('should check H ranges and steps', () => {
+      expect(validateCron('H(30-10) * * * *', jenkins).errors[0]).toMatchObject({
+        code: 'REVERSED_RANGE',
+        token: 'H(30-10)',
+      });
+      expect(validateCron('H(0-60) * * * *', jenkins).errors[0]).toMatchObject({ code: 'OUT_OF_RANGE' });
+      expect(validateCron('* * H(0-31) * *', jenkins).errors[0]).toMatchObject({ code: 'OUT_OF_RANGE' });
+      expect(validateCron('H/0 * * * *', jenkins).errors[0]).toMatchObject({ code: 'INVALID_STEP' });
+      expect(isCron('H(0-29 * * * *', jenkins)).toBe(false);
+      expect(isCron('h * * * *', jenkins)).toBe(false);
+    });
+
+    it('should reject H in other dialects', () => {
+      expect(validateCron('H * * * *').errors[0]).toMatchObject({
+        code: 'SYNTAX',
+        message: 'Hashed value "H" in minute needs the jenkins dialect',
+      });
+    });
+
+    it('should parse H into hash items', () => {
+      const [minute, , dayOfMonth, , dayOfWeek] = parseCron('H(0-29)/10 * H * H', jenkins).fields;
+      expect(minute?.items[0]).toMatchObject({
+        type: 'step',
+        step: 10,
+        base: { type: 'hash', text: 'H(0-29)', from: 0, to: 29 },
+      });
+      // Like Jenkins, H stays within days every month has, and Sunday is only 0
+      expect(dayOfMonth?.items[0]).toMatchObject({ type: 'hash', from: 1, to: 28 });
+      expect(dayOfWeek?.items[0]).toMatchObject({ type: 'hash', from: 0, to: 6 });
+    });
+  });
+
+  describe('resolveJenkinsHash', () => {
+    it('should give the same values for the same seed, across processes', () => {
+      expect(resolveJenkinsHash('H H(0-7) H * H', 'nightly-build')).toBe('0 2 27 * 4');
+      expect(resolveJenkinsHash('H H(0-7) H * H', 'deploy')).toBe('10 7 7 * 4');
+      expect(resolveJenkinsHash('H/15 * * * *', 'job-2')).toBe('14-59/15 * * * *');
+      expect(resolveJenkinsHash('H * * * *', 'ünïcode')).toBe('46 * * * *');
+    });
+
+    it('should stay within the given ranges', () => {
+      for (let i = 0; i < 200; i++) {
+        const [minute, hour, dayOfMonth] = resolveJenkinsHash('H(10-19) H(9-17) H * *', `job-${i}`).split(' ');
+        expect(Number(minute)).toBeGreaterThanOrEqual(10);
+        expect(Number(minute)).toBeLessThanOrEqual(19);
+        expect(Number(hour)).toBeGreaterThanOrEqual(9);
+        expect(Number(hour)).toBeLessThanOrEqual(17);
+        expect(Number(dayOfMonth)).toBeLessThanOrEqual(28);
+      }
+    });
+
+    it('should start steps within the first interval', () => {
+      for (let i = 0; i < 50; i++) {
+        const [minute] = resolveJenkinsHash('H/15 * * * *', `job-${i}`).split(' ');
+        expect(minute).toMatch(/^([0-9]|1[0-4])-59\/15$/);
+      }
+      expect(resolveJenkinsHash('H(0-5)/10 * * * *', 'job-1')).toMatch(/^[0-5]-5\/10 /);
+    });
+
+    it('should spread jobs across the range', () => {
+      const minutes = new Set<string>();
+      for (let i = 0; i < 100; i++) {
+        minutes.add(resolveJenkinsHash('H * * * *', `job-${i}`));
+      }
+      expect(minutes.size).toBeGreaterThan(40);
+    });
+
+    it('should give each H its own value', () => {
+      const values = new Set(resolveJenkinsHash('H H H H H', 'nightly-build').split(' '));
+      expect(values.size).toBeGreaterThan(1);
+    });
+
+    it('should leave other fields unchanged', () => {
+      expect(resolveJenkinsHash('*/5 9-17 * JAN MON-FRI', 'job')).toBe('*/5 9-17 * JAN MON-FRI');
+    });
+  });
+
+  describe('evaluation', () => {
+    const options = { ...jenkins, hashSeed: 'nightly-build' };
+
+    it('should compute run times from the resolved values', () => {
+      // H H(0-7) * * * resolves to 0 2 * * * for this seed
+      expect(nextRun('H H(0-7) * * *', new Date(2024, 0, 15), options)?.date).toEqual(new Date(2024, 0, 15, 2));
+    });
+
+    it('should describe the resolved values', () => {
+      expect(describeCron('H H(0-7) * * *', options)).toBe('At 02:00');
+    });
+
+    it('should require a seed', () => {
+      expect(() => nextRun('H * * * *', new Date(), jenkins)).toThrow(TypeError);
+      expect(() => describeCron('H * * * *', jenkins)).toThrow('Expressions with "H" need the hashSeed option');
+      expect(nextRun('0 * * * *', new Date(2024, 0, 15), jenkins)?.date).toEqual(new Date(2024, 0, 15, 1));
+    });
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { lintCron } from '../src/index.js';
+
+const ruleIds = (expr: string, options?: Parameters<typeof lintCron>[1]) =>
+  lintCron(expr, options).warnings.map((warning) => warning.ruleId);
+
+describe('lintCron', () => {
+  it('should not warn about ordinary expressions', () => {
+    for (const expr of ['0 9 * * *', '*/15 * * * *', '0 */6 * * *', '30 9 * * MON-FRI', '0 0 1 * *', '* * * * *']) {
+      expect(lintCron(expr)).toEqual({ valid: true, errors: [], warnings: [] });
+    }
+  });
+
+  it('should warn about every minute under a fixed hour or day', () => {
+    expect(lintCron('* 9 * * *').warnings).toEqual([
+      {
+        ruleId: 'wildcard-minute',
+        severity: 'warn',
+        message: 'Minute `*` runs every minute of each matching hour; use `0` to run once',
+        field: 'minute',
+        start: 0,
+        end: 1,
+      },
+    ]);
+    expect(ruleIds('* * * * MON')).toEqual(['wildcard-minute']);
+    expect(ruleIds('*/5 9 * * *')).toEqual([]);
+  });
+
+  it('should warn about every second under a fixed minute', () => {
+    expect(ruleIds('* 30 9 * * *', { seconds: true })).toEqual(['wildcard-second']);
+    expect(ruleIds('* * 9 * * *', { seconds: true })).toEqual(['wildcard-minute']);
+    expect(ruleIds('0 * 9 * * *', { seconds: true })).toEqual(['wildcard-minute']);
+  });
+
+  it('should warn about steps that leave uneven gaps', () => {
+    const [warning] = lintCron('*/45 * * * *').warnings;
+    expect(warning).toMatchObject({ ruleId: 'uneven-step', field: 'minute', start: 0, end: 4 });
+    expect(warning?.message).toBe('Step 45 does not divide the 60 values of minute, so the gaps are uneven');
+    expect(ruleIds('5/45 * * * *')).toEqual(['uneven-step']);
+    expect(ruleIds('0 */5 * * *')).toEqual(['uneven-step']);
+    expect(ruleIds('0 0 1 */5 *')).toEqual(['uneven-step']);
+    expect(ruleIds('0 0 * * */4')).toEqual(['uneven-step']);
+    // Ranges and days of the month have no fixed cycle
+    expect(ruleIds('0-40/15 * * * *')).toEqual([]);
+    expect(ruleIds('0 0 */2 * *')).toEqual([]);
+  });
+
+  it('should warn about steps larger than their range', () => {
+    const [warning] = lintCron('0-10/20 * * * *').warnings;
+    expect(warning).toMatchObject({ ruleId: 'step-exceeds-range', field: 'minute', start: 0, end: 7 });
+    expect(warning?.message).toBe('Step 20 is larger than the minute range of `0-10`, so only 0 matches');
+    expect(ruleIds('50/20 * * * *')).toEqual(['step-exceeds-range']);
+    expect(ruleIds('0 0 1 */12 *')).toEqual(['step-exceeds-range']);
+    expect(ruleIds('0 22-2/4 * * *', { wrapRanges: true })).toEqual([]);
+    expect(ruleIds('0 22-2/5 * * *', { wrapRanges: true })).toEqual(['step-exceeds-range']);
+  });
+
+  it('should warn when both day fields are restricted', () => {
+    const [warning] = lintCron('0 0 15 * MON').warnings;
+    expect(warning).toMatchObject({ ruleId: 'both-day-fields', start: 4, end: 12 });
+    expect(warning).not.toHaveProperty('field');
+    expect(ruleIds('0 0 */2 * MON')).toEqual([]);
+    expect(ruleIds('0 0 ? * MON')).toEqual([]);
+    expect(ruleIds('0 0 0 ? * MON', { dialect: 'quartz' })).toEqual([]);
+  });
+
+  it('should report warnings in source order', () => {
+    expect(ruleIds('* 9 15 * 1/4')).toEqual(['wildcard-minute', 'both-day-fields', 'uneven-step']);
+  });
+
+  it('should apply configured severities', () => {
+    const { warnings } = lintCron('* 9 15 * MON', {
+      rules: { 'wildcard-minute': 'error', 'both-day-fields': 'off' },
+    });
+    expect(warnings.map(({ ruleId, severity }) => ({ ruleId, severity }))).toEqual([
+      { ruleId: 'wildcard-minute', severity: 'error' },
+    ]);
+  });
+
+  it('should not lint macros', () => {
+    expect(lintCron('@hourly', { macros: true }).warnings).toEqual([]);
+  });
+
+  it('should return validation errors for invalid expressions', () => {
+    const result = lintCron('* 25 * * *');
+    expect(result.valid).toBe(false);
+    expect(result.errors[0]?.code).toBe('OUT_OF_RANGE');
+    expect(result.warnings).toEqual([]);
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect, expectTypeOf } from 'vitest';
+import {
+  isCron,
+  type CronExpression,
+  type ExtendedCronExpression,
+  type StandardCronExpression,
+  type ValidCron,
+} from '../src/index.js';
+
+// These checks run when the tests are type-checked (tsc -p tsconfig.eslint.json);
+// the runtime assertions confirm isCron agrees with each verdict.
+
+function scheduleJob<T extends string>(expr: ValidCron<T>): string {
+  return expr;
+}
+
+describe('ValidCron', () => {
+  it('should accept valid standard expressions', () => {
+    expectTypeOf<ValidCron<'0 9 * * MON'>>().toEqualTypeOf<'0 9 * * MON'>();
+    expectTypeOf<ValidCron<'*/15 9-17 * * mon-fri'>>().toEqualTypeOf<'*/15 9-17 * * mon-fri'>();
+    expectTypeOf<ValidCron<'00 00 1,15 JAN-3 SUN-7'>>().toEqualTypeOf<'00 00 1,15 JAN-3 SUN-7'>();
+    expectTypeOf<ValidCron<'5/15 0 ? * 7/2'>>().toEqualTypeOf<'5/15 0 ? * 7/2'>();
+    expectTypeOf<ValidCron<'59 23 31 12 7'>>().toEqualTypeOf<'59 23 31 12 7'>();
+    expect(['0 9 * * MON', '*/15 9-17 * * mon-fri', '00 00 1,15 JAN-3 SUN-7', '5/15 0 ? * 7/2'].every((e) => isCron(e)))
+      .toBe(true);
+  });
+
+  it('should reject the wrong number of fields', () => {
+    expectTypeOf<ValidCron<'0 9 * *'>>().toBeNever();
+    expectTypeOf<ValidCron<'0 0 9 * * *'>>().toBeNever();
+    expectTypeOf<ValidCron<''>>().toBeNever();
+    expect(isCron('0 9 * *') || isCron('0 0 9 * * *')).toBe(false);
+  });
+
+  it('should reject values out of range', () => {
+    expectTypeOf<ValidCron<'60 * * * *'>>().toBeNever();
+    expectTypeOf<ValidCron<'0 24 * * *'>>().toBeNever();
+    expectTypeOf<ValidCron<'0 0 32 * *'>>().toBeNever();
+    expectTypeOf<ValidCron<'0 0 0 * *'>>().toBeNever();
+    expectTypeOf<ValidCron<'0 0 * 13 *'>>().toBeNever();
+    expectTypeOf<ValidCron<'0 0 * * 8'>>().toBeNever();
+    expectTypeOf<ValidCron<'000 * * * *'>>().toBeNever();
+    expect(['60 * * * *', '0 24 * * *', '0 0 32 * *', '0 0 * 13 *', '0 0 * * 8'].some((e) => isCron(e))).toBe(false);
+  });
+
+  it('should check steps, ranges and lists', () => {
+    expectTypeOf<ValidCron<'*/59 * * * *'>>().toEqualTypeOf<'*/59 * * * *'>();
+    expectTypeOf<ValidCron<'*/60 * * * *'>>().toBeNever();
+    expectTypeOf<ValidCron<'*/0 * * * *'>>().toBeNever();
+    expectTypeOf<ValidCron<'*/01 * * * *'>>().toBeNever();
+    expectTypeOf<ValidCron<'0 0 * * 5-1'>>().toBeNever();
+    expectTypeOf<ValidCron<'0 0 * * FRI-MON'>>().toEqualTypeOf<'0 0 * * FRI-MON'>();
+    expectTypeOf<ValidCron<'0 0 * DEC-JAN *'>>().toEqualTypeOf<'0 0 * DEC-JAN *'>();
+    expectTypeOf<ValidCron<'0 0 * * 5-MON'>>().toBeNever();
+    expectTypeOf<ValidCron<'*-5 * * * *'>>().toEqualTypeOf<'*-5 * * * *'>();
+    expectTypeOf<ValidCron<'*-60 * * * *'>>().toBeNever();
+    expectTypeOf<ValidCron<'0 0 * * 1,'>>().toBeNever();
+    expectTypeOf<ValidCron<'0 ? * * *'>>().toBeNever();
+    expect(['*/60 * * * *', '0 0 * * 5-1', '0 0 * * 5-MON', '*-60 * * * *', '0 0 * * 1,'].some((e) => isCron(e)))
+      .toBe(false);
+    expect(['0 0 * * FRI-MON', '0 0 * DEC-JAN *', '*-5 * * * *'].every((e) => isCron(e))).toBe(true);
+  });
+
+  it('should check month and day names', () => {
+    expectTypeOf<ValidCron<'0 0 * Jan Sun'>>().toEqualTypeOf<'0 0 * Jan Sun'>();
+    expectTypeOf<ValidCron<'0 0 * FOO *'>>().toBeNever();
+    expectTypeOf<ValidCron<'0 0 MON * *'>>().toBeNever();
+    expect(isCron('0 0 * FOO *') || isCron('0 0 MON * *')).toBe(false);
+  });
+
+  it('should check 6-field expressions with Seconds', () => {
+    expectTypeOf<ValidCron<'*/10 * * * * *', true>>().toEqualTypeOf<'*/10 * * * * *'>();
+    expectTypeOf<ValidCron<'60 * * * * *', true>>().toBeNever();
+    expectTypeOf<ValidCron<'* * * * *', true>>().toBeNever();
+  });
+
+  it('should require isCron for values only known at run time', () => {
+    expectTypeOf<ValidCron<string>>().toBeNever();
+    expectTypeOf<ValidCron<StandardCronExpression>>().toEqualTypeOf<StandardCronExpression>();
+    expectTypeOf<ValidCron<ExtendedCronExpression, true>>().toEqualTypeOf<ExtendedCronExpression>();
+
+    const input: string = '0 9 * * MON';
+    // @ts-expect-error a plain string is not known to be valid
+    expectTypeOf(() => scheduleJob(input)).toBeFunction();
+    if (isCron(input)) {
+      expect(scheduleJob(input)).toBe('0 9 * * MON');
+    }
+    expect(scheduleJob('0 9 * * MON')).toBe('0 9 * * MON');
+  });
+
+  it('should only accept expressions narrowed for the same format', () => {
+    expectTypeOf<ValidCron<ExtendedCronExpression>>().toBeNever();
+    expectTypeOf<ValidCron<StandardCronExpression, true>>().toBeNever();
+    // The format of a plain CronExpression is unknown
+    expectTypeOf<ValidCron<CronExpression>>().toBeNever();
+  });
+});
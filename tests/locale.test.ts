@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import {
+  describeCron,
+  isCron,
+  parseCron,
+  validateCron,
+  enLocale,
+  deLocale,
+  jaLocale,
+  koLocale,
+  type CronLocale,
+} from '../src/index.js';
+
+describe('locales', () => {
+  it('should use English by default', () => {
+    expect(describeCron('0 9 * * MON-FRI', { locale: enLocale })).toBe(describeCron('0 9 * * MON-FRI'));
+  });
+
+  describe('German', () => {
+    const locale = deLocale;
+
+    it('should describe times and intervals', () => {
+      expect(describeCron('0 9-17 * * MON-FRI', { locale })).toBe('Stündlich von 09:00 bis 17:00, Montag bis Freitag');
+      expect(describeCron('*/15 * * * *', { locale })).toBe('Alle 15 Minuten');
+      expect(describeCron('* * * * *', { locale })).toBe('Jede Minute');
+    });
+
+    it('should describe dates with German ordinals', () => {
+      expect(describeCron('0 0 1,15 * *', { locale })).toBe('Um 00:00, am 1. und 15. des Monats');
+      expect(describeCron('0 0 15 * MON', { locale })).toBe('Um 00:00, am 15. des Monats oder am Montag');
+      expect(describeCron('0 0 * JAN,JUL *', { locale })).toBe('Um 00:00, im Januar und Juli');
+    });
+  });
+
+  describe('Japanese', () => {
+    const locale = jaLocale;
+
+    it('should put the date before the time', () => {
+      expect(describeCron('0 0 1,15 * *', { locale })).toBe('毎月1日と15日、00:00に');
+      expect(describeCron('0 9-17 * * MON-FRI', { locale })).toBe('月曜日から金曜日まで、09:00から17:00まで毎時');
+    });
+
+    it('should only say 毎月 when every month matches', () => {
+      expect(describeCron('0 0 1 1 *', { locale })).toBe('1日、1月、00:00に');
+      expect(describeCron('0 0 0 L 2 ?', { locale, dialect: 'quartz' })).toBe('末日、2月、00:00に');
+    });
+
+    it('should describe intervals', () => {
+      expect(describeCron('*/15 * * * *', { locale })).toBe('15分ごと');
+      expect(describeCron('5-10 * * * *', { locale })).toBe('5分から10分まで毎分');
+    });
+
+    it('should use 午前 and 午後 on a 12-hour clock', () => {
+      expect(describeCron('30 6 * * *', { locale, hour12: true })).toBe('午前6:30に');
+      expect(describeCron('30 18 * * *', { locale, hour12: true })).toBe('午後6:30に');
+    });
+  });
+
+  describe('Korean', () => {
+    const locale = koLocale;
+
+    it('should put the date before the time', () => {
+      expect(describeCron('0 0 1,15 * *', { locale })).toBe('매월 1일 및 15일, 00:00에');
+      expect(describeCron('0 0 15 * MON', { locale })).toBe('매월 15일 또는 월요일, 00:00에');
+    });
+
+    it('should only say 매월 when every month matches', () => {
+      expect(describeCron('0 0 1 1 *', { locale })).toBe('1일, 1월, 00:00에');
+    });
+
+    it('should describe intervals', () => {
+      expect(describeCron('*/15 * * * *', { locale })).toBe('15분마다');
+      expect(describeCron('0 */2 * * *', { locale })).toBe('2시간마다');
+    });
+
+    it('should use 오전 and 오후 on a 12-hour clock', () => {
+      expect(describeCron('30 18 * * *', { locale, hour12: true })).toBe('오후 6:30에');
+    });
+  });
+
+  describe('input aliases', () => {
+    it('should accept localized names in addition to English ones', () => {
+      expect(isCron('0 9 * * MO-FR', { locale: deLocale })).toBe(true);
+      expect(isCron('0 9 * Mär,Dez *', { locale: deLocale })).toBe(true);
+      expect(isCron('0 9 * * Montag', { locale: deLocale })).toBe(true);
+      expect(isCron('0 9 * JAN MON', { locale: deLocale })).toBe(true);
+      expect(isCron('0 9 * * 月-金', { locale: jaLocale })).toBe(true);
+      expect(isCron('0 9 * * 토요일', { locale: koLocale })).toBe(true);
+    });
+
+    it('should resolve localized names to numbers', () => {
+      const ast = parseCron('0 9 * * 月-金', { locale: jaLocale });
+      expect(ast.fields[4]?.items[0]).toMatchObject({ type: 'range', from: 1, to: 5 });
+      expect(parseCron('0 0 1 Okt *', { locale: deLocale }).fields[3]?.items[0]).toMatchObject({ value: 10 });
+    });
+
+    it('should reject localized names without the locale', () => {
+      expect(isCron('0 9 * * MO-FR')).toBe(false);
+      expect(validateCron('0 9 * * 月').errors[0]).toMatchObject({ code: 'UNKNOWN_ALIAS', field: 'dayOfWeek' });
+    });
+
+    it('should reject localized names when aliases are disabled', () => {
+      expect(isCron('0 9 * * MO', { locale: deLocale, alias: false })).toBe(false);
+    });
+
+    it('should describe expressions using localized names', () => {
+      expect(describeCron('0 9 * * MO-FR', { locale: deLocale })).toBe('Um 09:00, Montag bis Freitag');
+    });
+  });
+
+  it('should accept custom locales', () => {
+    const shouting: CronLocale = {
+      ...enLocale,
+      code: 'en-x-shout',
+      dayAliases: { MONDAY: 1 },
+      sentence: (time, date, everyMonth) => enLocale.sentence(time, date, everyMonth).toUpperCase(),
+    };
+    expect(describeCron('0 9 * * MONDAY', { locale: shouting })).toBe('AT 09:00, ON MONDAY');
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import {
+  isCron,
+  validateCron,
+  parseCron,
+  nextRun,
+  prevRun,
+  upcomingRuns,
+  describeCron,
+  expandCronMacro,
+  isCronMacro,
+  deLocale,
+} from '../src/index.js';
+
+const macros = ['@yearly', '@annually', '@monthly', '@weekly', '@daily', '@midnight', '@hourly', '@reboot'];
+
+describe('macros', () => {
+  describe('validation', () => {
+    it('should reject macros by default', () => {
+      expect(isCron('@daily')).toBe(false);
+      expect(validateCron('@daily').errors).toEqual([
+        { code: 'UNKNOWN_MACRO', message: 'Macros are disabled ("@daily")', token: '@daily', start: 0, end: 6 },
+      ]);
+    });
+
+    it('should accept every macro when enabled', () => {
+      for (const macro of macros) {
+        expect(isCron(macro, { macros: true })).toBe(true);
+        expect(isCron(macro, { macros: true, seconds: true })).toBe(true);
+      }
+    });
+
+    it('should allow surrounding whitespace', () => {
+      expect(isCron('  @hourly ', { macros: true })).toBe(true);
+    });
+
+    it('should reject unknown macros', () => {
+      expect(validateCron('@fortnightly', { macros: true }).errors[0]).toMatchObject({
+        code: 'UNKNOWN_MACRO',
+        message: 'Unknown macro "@fortnightly"',
+      });
+      expect(isCron('@DAILY', { macros: true })).toBe(false);
+    });
+
+    it('should not accept macros alongside fields', () => {
+      expect(isCron('@daily *', { macros: true })).toBe(false);
+      expect(isCron('* * * @daily *', { macros: true })).toBe(false);
+    });
+  });
+
+  describe('parsing', () => {
+    it('should parse macros as their expansion', () => {
+      const ast = parseCron('@weekly', { macros: true });
+      expect(ast.macro).toBe('@weekly');
+      expect(ast.trigger).toBe('schedule');
+      expect(ast.fields.map((node) => node.text)).toEqual(['0', '0', '*', '*', '0']);
+      expect(ast.fields[0]?.span).toEqual({ start: 0, end: 7 });
+    });
+
+    it('should flag @reboot as not time-based', () => {
+      const ast = parseCron('@reboot', { macros: true });
+      expect(ast.trigger).toBe('reboot');
+      expect(ast.fields).toEqual([]);
+      expect(parseCron('0 0 * * *').trigger).toBe('schedule');
+    });
+  });
+
+  describe('expandCronMacro', () => {
+    it('should expand macros to 5 fields', () => {
+      expect(expandCronMacro('@yearly')).toBe('0 0 1 1 *');
+      expect(expandCronMacro('@annually')).toBe('0 0 1 1 *');
+      expect(expandCronMacro('@monthly')).toBe('0 0 1 * *');
+      expect(expandCronMacro('@weekly')).toBe('0 0 * * 0');
+      expect(expandCronMacro('@daily')).toBe('0 0 * * *');
+      expect(expandCronMacro('@midnight')).toBe('0 0 * * *');
+      expect(expandCronMacro('@hourly')).toBe('0 * * * *');
+    });
+
+    it('should expand macros to 6 fields', () => {
+      expect(expandCronMacro('@daily', { seconds: true })).toBe('0 0 0 * * *');
+    });
+
+    it('should return null for @reboot', () => {
+      expect(expandCronMacro('@reboot')).toBeNull();
+    });
+
+    it('should return other expressions unchanged', () => {
+      expect(expandCronMacro('*/5 * * * *')).toBe('*/5 * * * *');
+    });
+  });
+
+  it('should recognize macro names', () => {
+    expect(isCronMacro('@daily')).toBe(true);
+    expect(isCronMacro('@reboot')).toBe(true);
+    expect(isCronMacro('@toString')).toBe(false);
+    expect(isCronMacro('daily')).toBe(false);
+  });
+
+  describe('scheduling', () => {
+    const from = new Date(2024, 0, 15, 10, 30);
+
+    it('should schedule macros like their expansion', () => {
+      expect(nextRun('@daily', from, { macros: true })?.date).toEqual(new Date(2024, 0, 16));
+      expect(nextRun('@hourly', from, { macros: true })?.date).toEqual(new Date(2024, 0, 15, 11));
+      expect(prevRun('@monthly', from, { macros: true })?.date).toEqual(new Date(2024, 0, 1));
+    });
+
+    it('should never schedule @reboot', () => {
+      expect(nextRun('@reboot', from, { macros: true })).toBeNull();
+      expect(prevRun('@reboot', from, { macros: true })).toBeNull();
+      expect(upcomingRuns('@reboot', from, { macros: true }).next().done).toBe(true);
+    });
+  });
+
+  it('should describe macros', () => {
+    expect(describeCron('@daily', { macros: true })).toBe('At 00:00');
+    expect(describeCron('@weekly', { macros: true })).toBe('At 00:00, on Sunday');
+    expect(describeCron('@reboot', { macros: true })).toBe('At startup');
+    expect(describeCron('@reboot', { macros: true, locale: deLocale })).toBe('Beim Systemstart');
+  });
+});
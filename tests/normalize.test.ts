@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { normalizeCron, isCron, upcomingRuns, CronParseError, type NormalizeCronOptions } from '../src/index.js';
+
+// Times of the first runs, to check that normalizing never changes the schedule
+function runs(expr: string, options: NormalizeCronOptions = {}): number[] {
+  const times: number[] = [];
+  for (const run of upcomingRuns(expr, new Date(2024, 0, 1), options)) {
+    times.push(run.date.getTime());
+    if (times.length === 50) break;
+  }
+  return times;
+}
+
+describe('normalizeCron', () => {
+  it('should give equivalent expressions the same text', () => {
+    expect(normalizeCron('0 0 * jan mon')).toBe('0 0 * 1 1');
+    expect(normalizeCron('00 00 * 1 1')).toBe('0 0 * 1 1');
+    expect(normalizeCron('0 0 * JAN MON')).toBe('0 0 * 1 1');
+  });
+
+  it('should write names when asked', () => {
+    expect(normalizeCron('0 0 * 1 1', { aliases: 'names' })).toBe('0 0 * JAN MON');
+    expect(normalizeCron('0 0 * jan-mar 1-5', { aliases: 'names' })).toBe('0 0 * JAN-MAR MON-FRI');
+    expect(normalizeCron('0 0 * 1 1', { aliases: 'names', alias: false })).toBe('0 0 * 1 1');
+  });
+
+  it('should strip leading zeros and write Sunday as 0', () => {
+    expect(normalizeCron('05 09 01 * *')).toBe('5 9 1 * *');
+    expect(normalizeCron('0 0 * * 7')).toBe('0 0 * * 0');
+    expect(normalizeCron('0 0 * * SUN,7')).toBe('0 0 * * 0');
+  });
+
+  it('should sort and merge list items', () => {
+    expect(normalizeCron('5,3,1,2,4 * * * *')).toBe('1-5 * * * *');
+    expect(normalizeCron('1-5,3-8,20 * * * *')).toBe('1-8,20 * * * *');
+    expect(normalizeCron('30,0,30 * * * *')).toBe('*/30 * * * *');
+    expect(normalizeCron('0 9,10,12 * * *')).toBe('0 9,10,12 * * *');
+  });
+
+  it('should collapse ranges that cover the whole field', () => {
+    expect(normalizeCron('0-59 0-23 * 1-12 *')).toBe('* * * * *');
+    expect(normalizeCron('* * * * SUN-SAT')).toBe('* * * * *');
+    expect(normalizeCron('*/1 * * * *')).toBe('* * * * *');
+  });
+
+  it('should write evenly spaced values as steps', () => {
+    expect(normalizeCron('0,15,30,45 * * * *')).toBe('*/15 * * * *');
+    expect(normalizeCron('0/15 * * * *')).toBe('*/15 * * * *');
+    expect(normalizeCron('5/15 * * * *')).toBe('5/15 * * * *');
+    expect(normalizeCron('0 9-18/2 * * *')).toBe('0 9-17/2 * * *');
+    expect(normalizeCron('0 0 * * MON,WED,FRI')).toBe('0 0 * * 1-5/2');
+  });
+
+  it('should keep the day fields restricted or unrestricted when both matter', () => {
+    // Both restricted: every day of the month, or Monday
+    expect(normalizeCron('0 0 1-31 * MON')).toBe('0 0 1-31 * 1');
+    expect(normalizeCron('0 0 1/2 * MON')).toBe('0 0 1/2 * 1');
+    expect(normalizeCron('0 0 */31 * MON')).toBe('0 0 */31 * 1');
+    expect(normalizeCron('0 0 1-31 * *')).toBe('0 0 * * *');
+  });
+
+  it('should unwrap wrap-around ranges', () => {
+    expect(normalizeCron('0 22-2 * * *', { wrapRanges: true })).toBe('0 0-2,22,23 * * *');
+    expect(normalizeCron('0 0 * * FRI-MON', { wrapRanges: true })).toBe('0 0 * * 0,1,5,6');
+  });
+
+  it('should handle the other dialects', () => {
+    const quartz = { dialect: 'quartz' } as const;
+    expect(normalizeCron('0 0 12 ? * MON-FRI *', quartz)).toBe('0 0 12 ? * 2-6');
+    expect(normalizeCron('0 0 12 ? * 2-6', { ...quartz, aliases: 'names' })).toBe('0 0 12 ? * MON-FRI');
+    expect(normalizeCron('0 0 12 ? * FRIL', quartz)).toBe('0 0 12 ? * 6L');
+    expect(normalizeCron('0 0 12 l-03 * ?', quartz)).toBe('0 0 12 L-3 * ?');
+    expect(normalizeCron('cron(0 12 ? * mon-fri 2025-2026)', { dialect: 'eventbridge' })).toBe(
+      'cron(0 12 ? * 2-6 2025,2026)'
+    );
+    expect(normalizeCron('rate(5 minutes)', { dialect: 'eventbridge' })).toBe('rate(5 minutes)');
+    expect(normalizeCron('H H(0-7) * * 1-5', { dialect: 'jenkins' })).toBe('H H(0-7) * * 1-5');
+  });
+
+  it('should expand macros', () => {
+    expect(normalizeCron('@daily', { macros: true })).toBe('0 0 * * *');
+    expect(normalizeCron('@weekly', { macros: true, seconds: true })).toBe('0 0 0 * * 0');
+    expect(normalizeCron('@reboot', { macros: true })).toBe('@reboot');
+  });
+
+  it('should stay valid and run at the same times', () => {
+    const cases: [string, NormalizeCronOptions][] = [
+      ['0 0 * jan mon', {}],
+      ['0,15,30,45 9-17 * * MON-FRI', {}],
+      ['0 0 1/2 * MON', {}],
+      ['0 0 */31 * MON', {}],
+      ['0 0 * * 5,6,7,0', { aliases: 'names' }],
+      ['0 22-2/2 30-2 * *', { wrapRanges: true }],
+      ['0 0 12 ? * 2/2', { dialect: 'quartz' }],
+      ['0 0 12 L-3 JAN-JUN/2 ? 2024-2030', { dialect: 'quartz' }],
+    ];
+    for (const [expr, options] of cases) {
+      const normalized = normalizeCron(expr, options);
+      expect(isCron(normalized, options)).toBe(true);
+      expect(runs(normalized, options)).toEqual(runs(expr, options));
+    }
+  });
+
+  it('should throw for invalid expressions', () => {
+    expect(() => normalizeCron('60 * * * *')).toThrow(CronParseError);
+  });
+});
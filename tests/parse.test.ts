@@ -0,0 +1,161 @@
+import { describe, it, expect } from 'vitest';
+import isCron, { parseCron, CronParseError, type CronFieldNode } from '../src/index.js';
+
+function field(source: string, index: number, seconds = false): CronFieldNode {
+  return parseCron(source, { seconds }).fields[index] as CronFieldNode;
+}
+
+describe('parseCron', () => {
+  describe('expression structure', () => {
+    it('should return one node per field', () => {
+      const ast = parseCron('0 12 * * *');
+      expect(ast.type).toBe('cron');
+      expect(ast.source).toBe('0 12 * * *');
+      expect(ast.seconds).toBe(false);
+      expect(ast.fields.map((node) => node.name)).toEqual(['minute', 'hour', 'dayOfMonth', 'month', 'dayOfWeek']);
+    });
+
+    it('should include the seconds field in 6-field mode', () => {
+      const ast = parseCron('*/5 * * * * *', { seconds: true });
+      expect(ast.seconds).toBe(true);
+      expect(ast.fields.map((node) => node.name)).toEqual([
+        'second',
+        'minute',
+        'hour',
+        'dayOfMonth',
+        'month',
+        'dayOfWeek',
+      ]);
+    });
+
+    it('should keep field source spans', () => {
+      const ast = parseCron('  5  12 * * *');
+      expect(ast.fields[0]).toMatchObject({ text: '5', span: { start: 2, end: 3 } });
+      expect(ast.fields[1]).toMatchObject({ text: '12', span: { start: 5, end: 7 } });
+    });
+  });
+
+  describe('items', () => {
+    it('should parse wildcards and question marks', () => {
+      expect(field('* * ? * *', 0).items).toEqual([{ type: 'wildcard', text: '*', span: { start: 0, end: 1 } }]);
+      expect(field('* * ? * *', 2).items).toEqual([{ type: 'any', text: '?', span: { start: 4, end: 5 } }]);
+    });
+
+    it('should parse single values with leading zeros', () => {
+      expect(field('05 * * * *', 0).items).toEqual([{ type: 'value', text: '05', span: { start: 0, end: 2 }, value: 5 }]);
+    });
+
+    it('should parse ranges', () => {
+      expect(field('* 9-17 * * *', 1).items).toEqual([
+        { type: 'range', text: '9-17', span: { start: 2, end: 6 }, from: 9, to: 17 },
+      ]);
+    });
+
+    it('should parse stepped wildcards, values and ranges', () => {
+      expect(field('*/15 * * * *', 0).items).toEqual([
+        {
+          type: 'step',
+          text: '*/15',
+          span: { start: 0, end: 4 },
+          base: { type: 'wildcard', text: '*', span: { start: 0, end: 1 } },
+          step: 15,
+        },
+      ]);
+      expect(field('5/10 * * * *', 0).items[0]).toMatchObject({ type: 'step', base: { type: 'value', value: 5 }, step: 10 });
+      expect(field('0-30/5 * * * *', 0).items[0]).toMatchObject({
+        type: 'step',
+        base: { type: 'range', from: 0, to: 30, span: { start: 0, end: 4 } },
+        step: 5,
+      });
+    });
+
+    it('should parse comma-separated lists with spans', () => {
+      const items = field('1,15-20,*/10 * * * *', 0).items;
+      expect(items.map((item) => item.type)).toEqual(['value', 'range', 'step']);
+      expect(items.map((item) => item.span)).toEqual([
+        { start: 0, end: 1 },
+        { start: 2, end: 7 },
+        { start: 8, end: 12 },
+      ]);
+    });
+  });
+
+  describe('aliases', () => {
+    it('should resolve month aliases to numbers', () => {
+      expect(field('* * * JAN *', 3).items[0]).toMatchObject({ type: 'value', value: 1, text: 'JAN' });
+      expect(field('* * * dec *', 3).items[0]).toMatchObject({ type: 'value', value: 12, text: 'dec' });
+    });
+
+    it('should resolve day of week aliases to numbers', () => {
+      expect(field('* * * * SUN', 4).items[0]).toMatchObject({ type: 'value', value: 0 });
+      expect(field('* * * * FRI', 4).items[0]).toMatchObject({ type: 'value', value: 5 });
+    });
+
+    it('should resolve alias ranges', () => {
+      expect(field('* * * * MON-FRI', 4).items[0]).toMatchObject({ type: 'range', from: 1, to: 5 });
+      expect(field('* * * JUN-AUG *', 3).items[0]).toMatchObject({ type: 'range', from: 6, to: 8 });
+    });
+
+    it('should resolve aliases in stepped ranges', () => {
+      expect(field('* * * JAN-JUN/2 *', 3).items[0]).toMatchObject({
+        type: 'step',
+        step: 2,
+        base: { type: 'range', from: 1, to: 6, text: 'JAN-JUN' },
+      });
+      expect(field('* * * * MON-FRI/2', 4).items[0]).toMatchObject({ type: 'step', base: { from: 1, to: 5 } });
+      expect(field('* * * JUL/3 *', 3).items[0]).toMatchObject({ type: 'step', base: { type: 'value', value: 7 } });
+    });
+
+    it('should accept a number and a name as range bounds', () => {
+      expect(field('* * * * 1-FRI', 4).items[0]).toMatchObject({ type: 'range', from: 1, to: 5 });
+      expect(field('* * * MAR-10 *', 3).items[0]).toMatchObject({ type: 'range', from: 3, to: 10 });
+    });
+  });
+
+  describe('wrap-around ranges', () => {
+    it('should keep the bounds of ranges that wrap around', () => {
+      const ast = parseCron('0 22-2 * * FRI-MON', { wrapRanges: true });
+      expect(ast.fields[1]?.items[0]).toMatchObject({ type: 'range', from: 22, to: 2 });
+      expect(ast.fields[4]?.items[0]).toMatchObject({ type: 'range', from: 5, to: 1 });
+    });
+
+    it('should reject numeric ones by default', () => {
+      expect(() => parseCron('0 22-2 * * *')).toThrow(CronParseError);
+      expect(isCron('0 0 * * 5-1')).toBe(false);
+    });
+
+    it('should always accept name ranges, which wrap', () => {
+      expect(isCron('0 0 * * SAT-SUN')).toBe(true);
+      expect(isCron('0 0 * * FRI-MON')).toBe(true);
+      expect(isCron('0 0 * JUN-JAN *')).toBe(true);
+      expect(parseCron('0 0 * * FRI-MON').fields[4]?.items[0]).toMatchObject({ type: 'range', from: 5, to: 1 });
+    });
+  });
+
+  describe('invalid expressions', () => {
+    it('should throw CronParseError with diagnostics', () => {
+      expect(() => parseCron('0 25 * * *')).toThrow(CronParseError);
+
+      try {
+        parseCron('0 25 * * *');
+      } catch (error) {
+        expect(error).toBeInstanceOf(CronParseError);
+        expect((error as CronParseError).message).toBe('Value 25 is out of range for hour (0-23)');
+        expect((error as CronParseError).errors[0]).toMatchObject({ code: 'OUT_OF_RANGE', field: 'hour' });
+      }
+    });
+
+    it('should read ranges that start with a wildcard from the start of the field', () => {
+      expect(parseCron('*-30 * * * *').fields[0]?.items[0]).toMatchObject({ type: 'range', text: '*-30', from: 0, to: 30 });
+      expect(parseCron('0 0 * * *-3').fields[4]?.items[0]).toMatchObject({ type: 'range', from: 0, to: 3 });
+      expect(() => parseCron('0 *-24 * * *')).toThrow('Value 24 is out of range for hour (0-23)');
+    });
+
+    it('should throw for every value isCron rejects', () => {
+      for (const value of ['', '* * * *', '60 * * * *', '* * * JANUARY *']) {
+        expect(isCron(value)).toBe(false);
+        expect(() => parseCron(value)).toThrow(CronParseError);
+      }
+    });
+  });
+});
@@ -0,0 +1,185 @@
+import { describe, it, expect } from 'vitest';
+import { isCron, validateCron, parseCron, nextRun, prevRun, describeCron } from '../src/index.js';
+
+const quartz = { dialect: 'quartz' } as const;
+
+const at = (year: number, month: number, day: number, hour = 0, minute = 0, second = 0) =>
+  new Date(year, month - 1, day, hour, minute, second);
+
+const next = (expr: string, from: Date) => nextRun(expr, from, quartz)?.date ?? null;
+
+describe('Quartz dialect', () => {
+  describe('fields', () => {
+    it('should accept 6 and 7 fields', () => {
+      expect(isCron('0 0 12 * * ?', quartz)).toBe(true);
+      expect(isCron('0 0 12 * * ? 2025', quartz)).toBe(true);
+      expect(isCron('0 0 12 * * ? 2025-2030/2', quartz)).toBe(true);
+      expect(validateCron('0 12 * * ?', quartz).errors[0]).toMatchObject({
+        code: 'FIELD_COUNT',
+        message: 'Expected 6 or 7 fields but found 5',
+      });
+    });
+
+    it('should check the year range', () => {
+      expect(isCron('0 0 12 * * ? 2099', quartz)).toBe(true);
+      expect(validateCron('0 0 12 * * ? 1969', quartz).errors[0]).toMatchObject({
+        code: 'OUT_OF_RANGE',
+        field: 'year',
+      });
+      expect(isCron('0 0 12 * * ? 2100', quartz)).toBe(false);
+    });
+
+    it('should number days of the week 1-7 with SUN=1', () => {
+      expect(isCron('0 0 12 ? * 1-7', quartz)).toBe(true);
+      expect(isCron('0 0 12 ? * MON-FRI', quartz)).toBe(true);
+      expect(validateCron('0 0 12 ? * 0', quartz).errors[0]).toMatchObject({
+        code: 'OUT_OF_RANGE',
+        message: 'Value 0 is out of range for day of week (1-7)',
+      });
+    });
+
+    it('should renumber days of the week to Sunday = 0 in the AST', () => {
+      const dayOfWeek = (expr: string) => parseCron(expr, quartz).fields[5]?.items[0];
+      expect(dayOfWeek('0 0 12 ? * 1')).toMatchObject({ type: 'value', text: '1', value: 0 });
+      expect(dayOfWeek('0 0 12 ? * 2-6')).toMatchObject({ type: 'range', from: 1, to: 5 });
+      expect(dayOfWeek('0 0 12 ? * MON')).toMatchObject({ type: 'value', value: 1 });
+      expect(parseCron('0 0 12 ? * 1', quartz).dialect).toBe('quartz');
+    });
+
+    it('should not be accepted by the standard dialect', () => {
+      expect(isCron('0 0 12 ? * 6#3', { seconds: true })).toBe(false);
+      expect(isCron('0 0 12 L * ?', { seconds: true })).toBe(false);
+    });
+  });
+
+  describe('day fields', () => {
+    it('should require exactly one ?', () => {
+      expect(validateCron('0 0 12 * * *', quartz).errors).toEqual([
+        {
+          code: 'DAY_FIELD_CONFLICT',
+          message: 'Either day of month or day of week must be "?" in Quartz expressions',
+          start: 7,
+          end: 12,
+        },
+      ]);
+      expect(validateCron('0 0 12 ? * ?', quartz).errors[0]).toMatchObject({ code: 'DAY_FIELD_CONFLICT' });
+      expect(isCron('0 0 12 15 * MON', quartz)).toBe(false);
+    });
+
+    it('should accept L in day of month', () => {
+      expect(parseCron('0 0 12 L * ?', quartz).fields[3]?.items[0]).toMatchObject({ type: 'lastDay', offset: 0 });
+      expect(parseCron('0 0 12 L-3 * ?', quartz).fields[3]?.items[0]).toMatchObject({ type: 'lastDay', offset: 3 });
+      expect(validateCron('0 0 12 L-31 * ?', quartz).errors[0]).toMatchObject({ code: 'OUT_OF_RANGE' });
+    });
+
+    it('should accept W and LW in day of month', () => {
+      expect(parseCron('0 0 12 15W * ?', quartz).fields[3]?.items[0]).toMatchObject({
+        type: 'nearestWeekday',
+        day: 15,
+      });
+      expect(parseCron('0 0 12 LW * ?', quartz).fields[3]?.items[0]).toMatchObject({ type: 'lastWeekday' });
+      expect(isCron('0 0 12 32W * ?', quartz)).toBe(false);
+      expect(isCron('0 0 12 1-5W * ?', quartz)).toBe(false);
+    });
+
+    it('should accept L and # in day of week', () => {
+      expect(parseCron('0 0 12 ? * 6L', quartz).fields[5]?.items[0]).toMatchObject({ type: 'lastDayOfWeek', day: 5 });
+      expect(parseCron('0 0 12 ? * FRIL', quartz).fields[5]?.items[0]).toMatchObject({
+        type: 'lastDayOfWeek',
+        day: 5,
+      });
+      expect(parseCron('0 0 12 ? * 6#3', quartz).fields[5]?.items[0]).toMatchObject({
+        type: 'nthDayOfWeek',
+        day: 5,
+        nth: 3,
+      });
+      expect(parseCron('0 0 12 ? * MON#1', quartz).fields[5]?.items[0]).toMatchObject({ day: 1, nth: 1 });
+      expect(parseCron('0 0 12 ? * L', quartz).fields[5]?.items[0]).toMatchObject({ type: 'value', value: 6 });
+    });
+
+    it('should check # and L values', () => {
+      expect(validateCron('0 0 12 ? * 6#6', quartz).errors[0]).toMatchObject({
+        code: 'OUT_OF_RANGE',
+        message: 'Occurrence 6 is out of range for day of week (1-5)',
+      });
+      expect(validateCron('0 0 12 ? * 8L', quartz).errors[0]).toMatchObject({ code: 'OUT_OF_RANGE' });
+      expect(validateCron('0 0 12 ? * XYZ#2', quartz).errors[0]).toMatchObject({ code: 'UNKNOWN_ALIAS' });
+      expect(validateCron('0 0 12 ? * MON#2', { ...quartz, alias: false }).errors[0]).toMatchObject({
+        code: 'UNKNOWN_ALIAS',
+      });
+    });
+
+    it('should not allow L, W or # in lists', () => {
+      expect(validateCron('0 0 12 L,15 * ?', quartz).errors).toEqual([
+        {
+          code: 'SYNTAX',
+          message: '"L" must be the only value in the day of month field',
+          field: 'dayOfMonth',
+          token: 'L',
+          start: 7,
+          end: 8,
+        },
+      ]);
+      expect(isCron('0 0 12 1W,15W * ?', quartz)).toBe(false);
+      expect(isCron('0 0 12 ? * 6#1,6#3', quartz)).toBe(false);
+      expect(isCron('0 0 12 ? * L,2', quartz)).toBe(false);
+    });
+  });
+
+  describe('scheduling', () => {
+    it('should find the last day of the month', () => {
+      expect(next('0 0 12 L * ?', at(2024, 2, 1))).toEqual(at(2024, 2, 29, 12));
+      expect(next('0 0 12 L-2 * ?', at(2024, 2, 1))).toEqual(at(2024, 2, 27, 12));
+    });
+
+    it('should find the nearest weekday without leaving the month', () => {
+      // 2024-06-15 is a Saturday, 2024-06-01 is a Saturday, 2024-06-30 is a Sunday
+      expect(next('0 0 12 15W * ?', at(2024, 6, 1))).toEqual(at(2024, 6, 14, 12));
+      expect(next('0 0 12 1W * ?', at(2024, 5, 31))).toEqual(at(2024, 6, 3, 12));
+      expect(next('0 0 12 30W * ?', at(2024, 6, 1))).toEqual(at(2024, 6, 28, 12));
+      expect(next('0 0 12 LW * ?', at(2024, 6, 1))).toEqual(at(2024, 6, 28, 12));
+    });
+
+    it('should find the last and nth day of the week', () => {
+      expect(next('0 0 12 ? * 6L', at(2024, 1, 1))).toEqual(at(2024, 1, 26, 12));
+      expect(next('0 0 12 ? * 6#3', at(2024, 1, 1))).toEqual(at(2024, 1, 19, 12));
+      // Not every month has a fifth Monday
+      expect(next('0 0 12 ? * 2#5', at(2024, 2, 1))).toEqual(at(2024, 4, 29, 12));
+    });
+
+    it('should use SUN=1 numbering', () => {
+      expect(next('0 0 12 ? * 1', at(2024, 1, 15))).toEqual(at(2024, 1, 21, 12));
+      expect(next('0 0 12 ? * 7', at(2024, 1, 15))).toEqual(at(2024, 1, 20, 12));
+    });
+
+    it('should end stepped days of the week on Saturday', () => {
+      // 2/2 is Monday, Wednesday and Friday, never Sunday
+      expect(next('0 0 12 ? * 2/2', at(2024, 1, 19, 13))).toEqual(at(2024, 1, 22, 12));
+    });
+
+    it('should respect the year field', () => {
+      expect(next('0 0 0 1 1 ? 2030', at(2024, 1, 15))).toEqual(at(2030, 1, 1));
+      expect(next('0 0 0 1 1 ? 2020', at(2024, 1, 15))).toBeNull();
+      expect(prevRun('0 0 0 1 1 ? 2020-2022', at(2024, 1, 15), quartz)?.date).toEqual(at(2022, 1, 1));
+    });
+
+    it('should step the year field from 1970', () => {
+      expect(next('0 0 0 1 1 ? */4', at(2026, 6, 1))).toEqual(at(2030, 1, 1));
+      expect(next('0 0 0 1 1 ? 1970/4', at(2026, 6, 1))).toEqual(at(2030, 1, 1));
+      expect(next('0 0 0 1 1 ? *', at(2026, 6, 1))).toEqual(at(2027, 1, 1));
+    });
+  });
+
+  it('should describe Quartz expressions', () => {
+    expect(describeCron('0 15 10 ? * 6#3', quartz)).toBe('At 10:15, on the 3rd Friday of the month');
+    expect(describeCron('0 15 10 L * ?', quartz)).toBe('At 10:15, on the last day of the month');
+    expect(describeCron('0 0 9 15W * ?', quartz)).toBe('At 09:00, on the weekday nearest the 15th of the month');
+    expect(describeCron('0 0 9 LW * ?', quartz)).toBe('At 09:00, on the last weekday of the month');
+    expect(describeCron('0 0 0 ? * 2-6 2025', quartz)).toBe('At 00:00, Monday through Friday, in 2025');
+  });
+
+  it('should describe stepped days of the week within the Quartz week', () => {
+    expect(describeCron('0 0 0 ? * 2/3', quartz)).toBe('At 00:00, on Monday and Thursday');
+    expect(describeCron('0 0 0 ? * 1/2,3', quartz)).toBe('At 00:00, on Sunday, Tuesday, Thursday and Saturday');
+  });
+});
@@ -0,0 +1,257 @@
+import { describe, it, expect } from 'vitest';
+import { nextRun, prevRun, upcomingRuns, matchesCron, CronParseError, type CronOccurrence } from '../src/index.js';
+
+// All dates are local time, matching how the scheduler evaluates expressions
+const at = (year: number, month: number, day: number, hour = 0, minute = 0, second = 0) =>
+  new Date(year, month - 1, day, hour, minute, second);
+
+const next = (...args: Parameters<typeof nextRun>) => nextRun(...args)?.date ?? null;
+const prev = (...args: Parameters<typeof prevRun>) => prevRun(...args)?.date ?? null;
+
+function take(iterator: Iterator<CronOccurrence>, count: number): Date[] {
+  const dates: Date[] = [];
+  for (let i = 0; i < count; i++) {
+    const result = iterator.next();
+    if (result.done) break;
+    dates.push(result.value.date);
+  }
+  return dates;
+}
+
+describe('nextRun', () => {
+  it('should find the next minute', () => {
+    expect(next('* * * * *', at(2024, 1, 15, 10, 30, 15))).toEqual(at(2024, 1, 15, 10, 31));
+  });
+
+  it('should be strictly after the start date', () => {
+    expect(next('30 10 * * *', at(2024, 1, 15, 10, 30))).toEqual(at(2024, 1, 16, 10, 30));
+    expect(next('30 10 * * *', new Date(at(2024, 1, 15, 10, 29, 59).getTime() + 500))).toEqual(
+      at(2024, 1, 15, 10, 30)
+    );
+  });
+
+  it('should roll over hours, days, months and years', () => {
+    expect(next('0 * * * *', at(2024, 1, 15, 10, 30))).toEqual(at(2024, 1, 15, 11));
+    expect(next('0 0 * * *', at(2024, 1, 31, 10))).toEqual(at(2024, 2, 1));
+    expect(next('0 0 1 * *', at(2024, 12, 15))).toEqual(at(2025, 1, 1));
+  });
+
+  it('should handle steps, ranges and lists', () => {
+    expect(next('*/15 * * * *', at(2024, 1, 15, 10, 16))).toEqual(at(2024, 1, 15, 10, 30));
+    expect(next('0 9-17/4 * * *', at(2024, 1, 15, 14))).toEqual(at(2024, 1, 15, 17));
+    expect(next('0 6,18 * * *', at(2024, 1, 15, 19))).toEqual(at(2024, 1, 16, 6));
+    expect(next('5/20 * * * *', at(2024, 1, 15, 10, 46))).toEqual(at(2024, 1, 15, 11, 5));
+  });
+
+  it('should resolve aliases', () => {
+    // 2024-01-15 is a Monday
+    expect(next('0 17 * * FRI', at(2024, 1, 15))).toEqual(at(2024, 1, 19, 17));
+    expect(next('0 0 1 JUN *', at(2024, 1, 15))).toEqual(at(2024, 6, 1));
+  });
+
+  it('should treat day of week 7 as Sunday', () => {
+    expect(next('0 0 * * 7', at(2024, 1, 15))).toEqual(at(2024, 1, 21));
+    expect(next('0 0 * * 0', at(2024, 1, 15))).toEqual(at(2024, 1, 21));
+    expect(next('0 0 * * 5-7', at(2024, 1, 15))).toEqual(at(2024, 1, 19));
+  });
+
+  it('should step through alias ranges', () => {
+    // Monday, Wednesday and Friday
+    expect(take(upcomingRuns('0 0 * * MON-FRI/2', at(2024, 1, 14)), 3)).toEqual([
+      at(2024, 1, 15),
+      at(2024, 1, 17),
+      at(2024, 1, 19),
+    ]);
+  });
+
+  it('should wrap ranges around the end of the field', () => {
+    const wrapRanges = true;
+    expect(take(upcomingRuns('0 22-2 * * *', at(2024, 1, 15, 21), { wrapRanges }), 5)).toEqual([
+      at(2024, 1, 15, 22),
+      at(2024, 1, 15, 23),
+      at(2024, 1, 16, 0),
+      at(2024, 1, 16, 1),
+      at(2024, 1, 16, 2),
+    ]);
+    expect(take(upcomingRuns('0 22-2/2 * * *', at(2024, 1, 15, 21), { wrapRanges }), 3)).toEqual([
+      at(2024, 1, 15, 22),
+      at(2024, 1, 16, 0),
+      at(2024, 1, 16, 2),
+    ]);
+    expect(next('0 0 30-2 * *', at(2024, 2, 3), { wrapRanges })).toEqual(at(2024, 3, 1));
+  });
+
+  it('should wrap days of the week after Saturday', () => {
+    const wrapRanges = true;
+    // Friday, Sunday, then Friday again: Sunday only counts once
+    expect(take(upcomingRuns('0 0 * * FRI-MON/2', at(2024, 1, 15), { wrapRanges }), 3)).toEqual([
+      at(2024, 1, 19),
+      at(2024, 1, 21),
+      at(2024, 1, 26),
+    ]);
+    expect(take(upcomingRuns('0 0 * * 7-1', at(2024, 1, 15), { wrapRanges }), 2)).toEqual([
+      at(2024, 1, 21),
+      at(2024, 1, 22),
+    ]);
+  });
+
+  it('should treat ? as a wildcard', () => {
+    expect(next('0 0 ? * MON', at(2024, 1, 16))).toEqual(at(2024, 1, 22));
+    expect(next('0 0 20 * ?', at(2024, 1, 15))).toEqual(at(2024, 1, 20));
+  });
+
+  it('should match either day field when both are restricted', () => {
+    // The 20th is a Saturday; the next Wednesday is the 17th
+    expect(next('0 0 20 * WED', at(2024, 1, 15))).toEqual(at(2024, 1, 17));
+    expect(next('0 0 16 * WED', at(2024, 1, 15))).toEqual(at(2024, 1, 16));
+  });
+
+  it('should require both day fields when one starts with *', () => {
+    // Odd days that are also Mondays: 2024-01-29 is the first after the 15th
+    expect(next('0 0 */2 * MON', at(2024, 1, 15))).toEqual(at(2024, 1, 29));
+  });
+
+  it('should support the seconds field', () => {
+    expect(next('*/10 * * * * *', at(2024, 1, 15, 10, 0, 5), { seconds: true })).toEqual(
+      at(2024, 1, 15, 10, 0, 10)
+    );
+    expect(next('30 0 12 * * *', at(2024, 1, 15, 12, 0, 30), { seconds: true })).toEqual(
+      at(2024, 1, 16, 12, 0, 30)
+    );
+  });
+
+  it('should find February 29 in the next leap year', () => {
+    expect(next('0 0 29 2 *', at(2024, 3, 1))).toEqual(at(2028, 2, 29));
+  });
+
+  it('should return null for expressions that never fire', () => {
+    expect(next('0 0 30 2 *', at(2024, 1, 1))).toBeNull();
+  });
+
+  it('should throw for invalid expressions', () => {
+    expect(() => nextRun('60 * * * *')).toThrow(CronParseError);
+    expect(() => nextRun('* * * * * *')).toThrow(CronParseError);
+  });
+});
+
+describe('prevRun', () => {
+  it('should find the previous minute', () => {
+    expect(prev('* * * * *', at(2024, 1, 15, 10, 30, 15))).toEqual(at(2024, 1, 15, 10, 30));
+    expect(prev('* * * * *', at(2024, 1, 15, 10, 30))).toEqual(at(2024, 1, 15, 10, 29));
+  });
+
+  it('should roll back over days, months and years', () => {
+    expect(prev('0 12 * * *', at(2024, 1, 15, 11))).toEqual(at(2024, 1, 14, 12));
+    expect(prev('0 0 31 * *', at(2024, 3, 15))).toEqual(at(2024, 1, 31));
+    expect(prev('0 0 1 JUL *', at(2024, 3, 15))).toEqual(at(2023, 7, 1));
+  });
+
+  it('should match either day field when both are restricted', () => {
+    expect(prev('0 0 1 * FRI', at(2024, 1, 15))).toEqual(at(2024, 1, 12));
+  });
+
+  it('should support the seconds field', () => {
+    expect(prev('*/10 * * * * *', at(2024, 1, 15, 10, 0, 5), { seconds: true })).toEqual(
+      at(2024, 1, 15, 10, 0, 0)
+    );
+  });
+
+  it('should return null for expressions that never fire', () => {
+    expect(prev('0 0 31 4 *', at(2024, 1, 1))).toBeNull();
+  });
+});
+
+describe('upcomingRuns', () => {
+  it('should lazily yield occurrences in order', () => {
+    expect(take(upcomingRuns('0 */6 * * *', at(2024, 1, 15, 5)), 4)).toEqual([
+      at(2024, 1, 15, 6),
+      at(2024, 1, 15, 12),
+      at(2024, 1, 15, 18),
+      at(2024, 1, 16, 0),
+    ]);
+  });
+
+  it('should agree with nextRun', () => {
+    const runs = take(upcomingRuns('15 9 * * MON-FRI', at(2024, 1, 15)), 10);
+    let previous = at(2024, 1, 15);
+    for (const run of runs) {
+      expect(run).toEqual(next('15 9 * * MON-FRI', previous));
+      previous = run;
+    }
+  });
+
+  it('should end for expressions that never fire', () => {
+    expect(take(upcomingRuns('0 0 31 2 *', at(2024, 1, 1)), 1)).toEqual([]);
+  });
+
+  it('should throw for invalid expressions when called', () => {
+    expect(() => upcomingRuns('0 25 * * *')).toThrow(CronParseError);
+  });
+});
+
+describe('matchesCron', () => {
+  it('should match any instant within a matching minute', () => {
+    expect(matchesCron('30 10 * * *', at(2024, 1, 15, 10, 30))).toBe(true);
+    expect(matchesCron('30 10 * * *', new Date(at(2024, 1, 15, 10, 30, 59).getTime() + 999))).toBe(true);
+    expect(matchesCron('30 10 * * *', at(2024, 1, 15, 10, 31))).toBe(false);
+  });
+
+  it('should treat day of week 0 and 7 as Sunday', () => {
+    expect(matchesCron('0 0 * * 0', at(2024, 1, 14))).toBe(true);
+    expect(matchesCron('0 0 * * 7', at(2024, 1, 14))).toBe(true);
+    expect(matchesCron('0 0 * * 5-7', at(2024, 1, 14))).toBe(true);
+    expect(matchesCron('0 0 * * 7', at(2024, 1, 15))).toBe(false);
+  });
+
+  it('should treat ? as a wildcard', () => {
+    expect(matchesCron('0 0 ? * MON', at(2024, 1, 15))).toBe(true);
+    expect(matchesCron('0 0 15 * ?', at(2024, 1, 15))).toBe(true);
+  });
+
+  it('should match either day field when both are restricted', () => {
+    expect(matchesCron('0 0 1 * MON', at(2024, 1, 1))).toBe(true);
+    expect(matchesCron('0 0 1 * MON', at(2024, 1, 15))).toBe(true);
+    expect(matchesCron('0 0 1 * MON', at(2024, 1, 16))).toBe(false);
+  });
+
+  it('should support the seconds field', () => {
+    expect(matchesCron('*/10 * * * * *', at(2024, 1, 15, 10, 0, 20), { seconds: true })).toBe(true);
+    expect(matchesCron('*/10 * * * * *', at(2024, 1, 15, 10, 0, 25), { seconds: true })).toBe(false);
+  });
+
+  it('should evaluate fields in the time zone', () => {
+    const instant = new Date('2024-01-01T00:00:00Z');
+    expect(matchesCron('0 9 * * *', instant, { timeZone: 'Asia/Tokyo' })).toBe(true);
+    expect(matchesCron('0 0 * * *', instant, { timeZone: 'Asia/Tokyo' })).toBe(false);
+    expect(matchesCron('0 19 31 12 *', instant, { timeZone: 'America/New_York' })).toBe(true);
+  });
+
+  it('should follow skippedTime for times skipped by DST', () => {
+    // 2024-03-10 02:00 EST jumps to 03:00 EDT (07:00 UTC)
+    const gapEnd = new Date('2024-03-10T07:00:00Z');
+    const timeZone = 'America/New_York';
+    expect(matchesCron('30 2 * * *', gapEnd, { timeZone })).toBe(true);
+    expect(matchesCron('30 2 * * *', gapEnd, { timeZone, skippedTime: 'skip' })).toBe(false);
+    expect(matchesCron('30 2 * * *', new Date('2024-03-10T07:01:00Z'), { timeZone })).toBe(false);
+  });
+
+  it('should follow repeatedTime for times repeated by DST', () => {
+    // 2024-11-03 01:30 happens at 05:30 UTC (EDT) and 06:30 UTC (EST)
+    const first = new Date('2024-11-03T05:30:00Z');
+    const second = new Date('2024-11-03T06:30:00Z');
+    const timeZone = 'America/New_York';
+    expect(matchesCron('30 1 * * *', first, { timeZone })).toBe(true);
+    expect(matchesCron('30 1 * * *', second, { timeZone })).toBe(false);
+    expect(matchesCron('30 1 * * *', second, { timeZone, repeatedTime: 'last' })).toBe(true);
+    expect(matchesCron('30 1 * * *', second, { timeZone, repeatedTime: 'both' })).toBe(true);
+  });
+
+  it('should never match expressions without a schedule', () => {
+    expect(matchesCron('@reboot', at(2024, 1, 15), { macros: true })).toBe(false);
+  });
+
+  it('should throw for invalid expressions', () => {
+    expect(() => matchesCron('0 25 * * *', at(2024, 1, 15))).toThrow(CronParseError);
+    expect(() => matchesCron('0 0 * * *', at(2024, 1, 15), { timeZone: 'Mars/Olympus' })).toThrow(RangeError);
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, it, expect, expectTypeOf } from 'vitest';
+import Ajv from 'ajv';
+import { z } from 'zod';
+import * as v from 'valibot';
+import { object, ValidationError } from 'yup';
+import { cronSchema as zodCron } from '../src/schemas/zod.js';
+import { cronSchema as valibotCron } from '../src/schemas/valibot.js';
+import { cronSchema as yupCron } from '../src/schemas/yup.js';
+import { cronFormat, cronKeyword, cronSchema as jsonCron } from '../src/schemas/json-schema.js';
+import { koLocale } from '../src/index.js';
+import type {
+  CronExpression,
+  ExtendedCronExpression,
+  IsCronOptions,
+  QuartzCronExpression,
+  StandardCronExpression,
+} from '../src/index.js';
+
+const OUT_OF_RANGE = ['Value 60 is out of range for minute (0-59)', 'Value 25 is out of range for hour (0-23)'];
+
+describe('zod', () => {
+  it('should accept valid expressions', () => {
+    expect(zodCron().parse('0 9 * * MON')).toBe('0 9 * * MON');
+    expect(zodCron({ seconds: true }).parse('*/5 * * * * *')).toBe('*/5 * * * * *');
+  });
+
+  it('should report one issue per problem', () => {
+    const result = zodCron().safeParse('60 25 * * *');
+    expect(result.success).toBe(false);
+    expect(result.error?.issues.map((issue) => issue.message)).toEqual(OUT_OF_RANGE);
+    expect(result.error?.issues[1]).toMatchObject({
+      code: 'custom',
+      params: { code: 'OUT_OF_RANGE', field: 'hour', start: 3, end: 5 },
+    });
+  });
+
+  it('should report the path inside objects', () => {
+    const result = z.object({ schedule: zodCron() }).safeParse({ schedule: '* * *' });
+    expect(result.error?.issues[0]).toMatchObject({ path: ['schedule'], params: { code: 'FIELD_COUNT' } });
+    expect(zodCron().safeParse(5).success).toBe(false);
+  });
+
+  it('should pass options through', () => {
+    expect(zodCron({ dialect: 'quartz' }).safeParse('0 0 12 ? * MON').success).toBe(true);
+    expect(zodCron({ alias: false }).safeParse('0 0 * JAN *').success).toBe(false);
+    expect(zodCron({ locale: koLocale }).safeParse('0 0 * * 월').success).toBe(true);
+  });
+
+  it('should type the output with the expression brand', () => {
+    const standard = zodCron();
+    expectTypeOf<z.output<typeof standard>>().toEqualTypeOf<StandardCronExpression>();
+    const seconds = zodCron({ seconds: true });
+    expectTypeOf<z.output<typeof seconds>>().toEqualTypeOf<ExtendedCronExpression>();
+    const options: IsCronOptions = {};
+    const unknown = zodCron(options);
+    expectTypeOf<z.output<typeof unknown>>().toEqualTypeOf<CronExpression>();
+    expectTypeOf<z.input<typeof seconds>>().toEqualTypeOf<string>();
+  });
+});
+
+describe('valibot', () => {
+  it('should accept valid expressions', () => {
+    expect(v.parse(valibotCron(), '0 9 * * MON')).toBe('0 9 * * MON');
+  });
+
+  it('should report one issue per problem', () => {
+    const result = v.safeParse(valibotCron(), '60 25 * * *');
+    expect(result.success).toBe(false);
+    expect(result.issues?.map((issue) => issue.message)).toEqual(OUT_OF_RANGE);
+    expect(result.issues?.[1]).toMatchObject({ type: 'raw_check', code: 'OUT_OF_RANGE', field: 'hour' });
+    expect(v.safeParse(valibotCron(), 5).issues?.[0]?.type).toBe('string');
+  });
+
+  it('should pass options through and brand the output', () => {
+    const schema = valibotCron({ dialect: 'quartz' });
+    expect(v.safeParse(schema, '0 0 12 ? * MON').success).toBe(true);
+    expectTypeOf<v.InferOutput<typeof schema>>().toEqualTypeOf<QuartzCronExpression>();
+  });
+});
+
+describe('yup', () => {
+  it('should accept valid and missing values', async () => {
+    await expect(yupCron().validate('0 9 * * MON')).resolves.toBe('0 9 * * MON');
+    await expect(yupCron().validate(undefined)).resolves.toBeUndefined();
+    await expect(yupCron().required().validate(undefined)).rejects.toThrow(ValidationError);
+  });
+
+  it('should report one error per problem', async () => {
+    const schema = object({ schedule: yupCron() });
+    const error = await schema.validate({ schedule: '60 25 * * *' }, { abortEarly: false }).catch((e) => e);
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.errors).toEqual(OUT_OF_RANGE);
+    expect(error.inner[0]).toMatchObject({ path: 'schedule', params: { code: 'OUT_OF_RANGE', field: 'minute' } });
+  });
+
+  it('should pass options through and brand the output', async () => {
+    const schema = yupCron({ seconds: true });
+    await expect(schema.isValid('*/5 * * * * *')).resolves.toBe(true);
+    await expect(schema.isValid('*/5 * * * *')).resolves.toBe(false);
+    expectTypeOf(schema.validateSync).returns.toEqualTypeOf<ExtendedCronExpression | undefined>();
+  });
+});
+
+describe('json-schema', () => {
+  it('should write the options into the schema', () => {
+    expect(jsonCron()).toEqual({ type: 'string', cron: true });
+    expect(jsonCron({ seconds: true })).toEqual({ type: 'string', cron: { seconds: true } });
+  });
+
+  it('should validate with the cron keyword', () => {
+    const ajv = new Ajv({ allErrors: true });
+    ajv.addKeyword(cronKeyword());
+    const validate = ajv.compile({
+      type: 'object',
+      properties: { schedule: jsonCron(), quartz: jsonCron({ dialect: 'quartz' }) },
+    });
+
+    expect(validate({ schedule: '0 9 * * MON', quartz: '0 0 12 ? * MON' })).toBe(true);
+    expect(validate({ schedule: '60 25 * * *', quartz: '0 0 12 * * MON' })).toBe(false);
+    expect(validate.errors).toEqual([
+      {
+        instancePath: '/schedule',
+        schemaPath: '#/properties/schedule/cron',
+        keyword: 'cron',
+        message: OUT_OF_RANGE[0],
+        params: { code: 'OUT_OF_RANGE', field: 'minute', start: 0, end: 2 },
+      },
+      expect.objectContaining({ instancePath: '/schedule', message: OUT_OF_RANGE[1] }),
+      expect.objectContaining({
+        instancePath: '/quartz',
+        params: expect.objectContaining({ code: 'DAY_FIELD_CONFLICT' }),
+      }),
+    ]);
+  });
+
+  it('should add keyword defaults to every schema', () => {
+    const ajv = new Ajv();
+    ajv.addKeyword(cronKeyword({ locale: koLocale }));
+    expect(ajv.validate({ type: 'string', cron: true }, '0 0 * * 월')).toBe(true);
+    expect(ajv.validate({ type: 'string', cron: false }, 'not cron')).toBe(true);
+  });
+
+  it('should validate with the cron format', () => {
+    const ajv = new Ajv();
+    ajv.addFormat('cron', cronFormat({ seconds: true }));
+    expect(ajv.validate({ type: 'string', format: 'cron' }, '*/5 * * * * *')).toBe(true);
+    expect(ajv.validate({ type: 'string', format: 'cron' }, '*/5 * * * *')).toBe(false);
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { isCron, suggestCron } from '../src/index.js';
+
+const expressions = (expr: string, options?: Parameters<typeof suggestCron>[1]) =>
+  suggestCron(expr, options).map((suggestion) => suggestion.expression);
+
+describe('suggestCron', () => {
+  it('should suggest aliases for full day and month names', () => {
+    expect(suggestCron('0 0 * * MONDAY')).toEqual([{ expression: '0 0 * * MON', changes: ['Use `MON` for `MONDAY`'] }]);
+    expect(expressions('0 0 * JANUARY-MARCH MONDAY-FRIDAY')).toEqual(['0 0 * JAN-MAR MON-FRI']);
+    expect(expressions('0 0 * * tues,thurs')).toEqual(['0 0 * * TUE,THU']);
+    expect(expressions('0 0 1 SEPT *')).toEqual(['0 0 1 SEP *']);
+  });
+
+  it('should suggest aliases for typos', () => {
+    expect(expressions('0 0 * * MNO')).toEqual(['0 0 * * MON']);
+    expect(expressions('0 0 * * WENDESDAY')).toEqual(['0 0 * * WED']);
+    expect(expressions('0 0 1 JNA *')).toEqual(['0 0 1 JAN *']);
+    expect(expressions('0 0 * * FOO')).toEqual([]);
+  });
+
+  it('should suggest numbers when aliases are disabled', () => {
+    expect(expressions('0 0 * * MONDAY', { alias: false })).toEqual(['0 0 * * 1']);
+    expect(expressions('0 0 0 ? * MONDAY', { dialect: 'quartz', alias: false })).toEqual(['0 0 0 ? * 2']);
+  });
+
+  it('should fix values one past either end of a field', () => {
+    expect(suggestCron('0 0 * * 1-8')).toEqual([
+      { expression: '0 0 * * 1-7', changes: ['Use `7` for `8`: day of week is 0-7'] },
+    ]);
+    expect(expressions('60 * * * *')).toEqual(['59 * * * *', '0 * * * *']);
+    expect(expressions('0 24 * * *')).toEqual(['0 23 * * *', '0 0 * * *', '24 0 * * *']);
+    expect(expressions('0 0 0 * *')).toEqual(['0 0 1 * *']);
+    expect(expressions('0 0 1 0-12 *')).toEqual(['0 0 1 1-12 *']);
+    expect(expressions('75 * * * *')).toEqual([]);
+  });
+
+  it('should leave steps alone', () => {
+    expect(expressions('*/60 * * * *')).toEqual([]);
+  });
+
+  it('should fix the field count', () => {
+    expect(suggestCron('0 0 9 * * *')).toEqual([
+      { expression: '0 9 * * *', changes: ['Remove the seconds field, or enable the `seconds` option'] },
+    ]);
+    expect(expressions('0 9 * * *', { seconds: true })).toEqual(['0 0 9 * * *']);
+    expect(suggestCron('0 9 * *')).toEqual([
+      { expression: '0 9 * * *', changes: ['Add `*` for the missing day of week field'] },
+    ]);
+    expect(suggestCron('0 0 12 * * MON 2025', { seconds: true })).toEqual([
+      { expression: '0 0 12 * * MON', changes: ['Remove the year field'] },
+    ]);
+    expect(expressions('0 0 12 ? * MON *')).toEqual(['0 12 ? * MON']);
+    expect(expressions('0 0 ? * MON', { dialect: 'quartz' })).toEqual(['0 0 0 ? * MON']);
+  });
+
+  it('should swap minute and hour fields', () => {
+    expect(suggestCron('9 30 * * *')).toEqual([{ expression: '30 9 * * *', changes: ['Swap the minute and hour fields'] }]);
+    expect(expressions('0 9 45 * * *', { seconds: true })).toEqual(['0 45 9 * * *']);
+    expect(expressions('9 30 * * MONDAY')[0]).toBe('30 9 * * MON');
+  });
+
+  it('should combine corrections', () => {
+    expect(suggestCron('0 0 9 * * MONDAY')).toEqual([
+      {
+        expression: '0 9 * * MON',
+        changes: ['Remove the seconds field, or enable the `seconds` option', 'Use `MON` for `MONDAY`'],
+      },
+    ]);
+  });
+
+  it('should rank the most likely correction first', () => {
+    // A spelled-out name is more likely than a typo
+    expect(expressions('0 0 * * SUNDAY')[0]).toBe('0 0 * * SUN');
+    const suggestions = expressions('60 24 * * *');
+    expect(suggestions[0]).toBe('59 23 * * *');
+    expect(suggestions.length).toBeLessThanOrEqual(5);
+  });
+
+  it('should only return expressions that pass isCron', () => {
+    const inputs = ['0 0 * * MONDAY', '60 * * * *', '0 0 * * 1-8', '0 0 9 * * *', '9 30 * * *', '0 0 1 13 *'];
+    for (const input of inputs) {
+      for (const options of [{}, { seconds: true }, { alias: false }]) {
+        for (const expression of expressions(input, options)) {
+          expect(isCron(expression, options)).toBe(true);
+        }
+      }
+    }
+  });
+
+  it('should return nothing for valid expressions', () => {
+    expect(suggestCron('0 0 * * MON')).toEqual([]);
+  });
+});
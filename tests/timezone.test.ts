@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest';
+import { nextRun, prevRun, upcomingRuns, type CronOccurrence } from '../src/index.js';
+
+const utc = (iso: string) => new Date(`${iso}Z`);
+
+function take(iterator: Iterator<CronOccurrence>, count: number): CronOccurrence[] {
+  const runs: CronOccurrence[] = [];
+  for (let i = 0; i < count; i++) {
+    const result = iterator.next();
+    if (result.done) break;
+    runs.push(result.value);
+  }
+  return runs;
+}
+
+describe('time zones', () => {
+  it('should evaluate expressions in the given time zone', () => {
+    const run = nextRun('0 9 * * *', utc('2024-01-15T00:00:00'), { timeZone: 'Asia/Seoul' });
+    expect(run?.date).toEqual(utc('2024-01-16T00:00:00'));
+    expect(run?.local).toEqual({ year: 2024, month: 1, day: 16, hour: 9, minute: 0, second: 0 });
+    expect(run?.timeZone).toBe('Asia/Seoul');
+    expect(run?.utcOffset).toBe(540);
+  });
+
+  it('should report negative offsets west of Greenwich', () => {
+    const run = nextRun('0 9 * * *', utc('2024-01-15T00:00:00'), { timeZone: 'America/New_York' });
+    expect(run?.date).toEqual(utc('2024-01-15T14:00:00'));
+    expect(run?.utcOffset).toBe(-300);
+  });
+
+  it('should use the wall-clock date for day fields', () => {
+    // 2024-01-15 00:00 UTC is still Sunday the 14th in Los Angeles
+    const run = nextRun('30 23 * * SUN', utc('2024-01-15T00:00:00'), { timeZone: 'America/Los_Angeles' });
+    expect(run?.local).toMatchObject({ year: 2024, month: 1, day: 14, hour: 23, minute: 30 });
+    expect(run?.date).toEqual(utc('2024-01-15T07:30:00'));
+  });
+
+  it('should support prevRun', () => {
+    const run = prevRun('0 0 1 * *', utc('2024-03-15T00:00:00'), { timeZone: 'Europe/Berlin' });
+    expect(run?.date).toEqual(utc('2024-02-29T23:00:00'));
+    expect(run?.local).toMatchObject({ month: 3, day: 1, hour: 0 });
+  });
+
+  it('should throw for unknown time zones', () => {
+    expect(() => nextRun('* * * * *', new Date(), { timeZone: 'Mars/Olympus_Mons' })).toThrow(RangeError);
+  });
+});
+
+describe('DST transitions', () => {
+  const timeZone = 'America/New_York';
+
+  describe('skipped times (spring forward)', () => {
+    // 2024-03-10: clocks jump from 02:00 EST to 03:00 EDT (07:00 UTC)
+    const before = utc('2024-03-10T06:00:00');
+
+    it('should shift skipped times to the end of the gap by default', () => {
+      const run = nextRun('30 2 * * *', before, { timeZone });
+      expect(run?.date).toEqual(utc('2024-03-10T07:00:00'));
+      expect(run?.local).toMatchObject({ day: 10, hour: 3, minute: 0 });
+      expect(run?.utcOffset).toBe(-240);
+    });
+
+    it('should skip skipped times when asked', () => {
+      const run = nextRun('30 2 * * *', before, { timeZone, skippedTime: 'skip' });
+      expect(run?.local).toMatchObject({ day: 11, hour: 2, minute: 30 });
+    });
+
+    it('should run a shifted time only once', () => {
+      const dates = take(upcomingRuns('*/20 * * * *', before, { timeZone }), 6);
+      expect(dates.map((run) => `${run.local.hour}:${run.local.minute}`)).toEqual([
+        '1:20',
+        '1:40',
+        '3:0',
+        '3:20',
+        '3:40',
+        '4:0',
+      ]);
+    });
+
+    it('should find shifted times with prevRun', () => {
+      const run = prevRun('30 2 * * *', utc('2024-03-10T09:00:00'), { timeZone });
+      expect(run?.date).toEqual(utc('2024-03-10T07:00:00'));
+    });
+  });
+
+  describe('repeated times (fall back)', () => {
+    // 2024-11-03: clocks fall back from 02:00 EDT to 01:00 EST (06:00 UTC)
+    const before = utc('2024-11-03T04:00:00');
+
+    it('should run on the first pass by default', () => {
+      const run = nextRun('30 1 * * *', before, { timeZone });
+      expect(run?.date).toEqual(utc('2024-11-03T05:30:00'));
+      expect(run?.utcOffset).toBe(-240);
+
+      const after = nextRun('30 1 * * *', run?.date ?? before, { timeZone });
+      expect(after?.local).toMatchObject({ day: 4, hour: 1, minute: 30 });
+    });
+
+    it('should run on the last pass when asked', () => {
+      const run = nextRun('30 1 * * *', before, { timeZone, repeatedTime: 'last' });
+      expect(run?.date).toEqual(utc('2024-11-03T06:30:00'));
+      expect(run?.utcOffset).toBe(-300);
+    });
+
+    it('should run on both passes when asked', () => {
+      const runs = take(upcomingRuns('30 1 * * *', before, { timeZone, repeatedTime: 'both' }), 3);
+      expect(runs.map((run) => run.date)).toEqual([
+        utc('2024-11-03T05:30:00'),
+        utc('2024-11-03T06:30:00'),
+        utc('2024-11-04T06:30:00'),
+      ]);
+    });
+
+    it('should not repeat the first pass when starting in the second', () => {
+      const run = nextRun('30 1 * * *', utc('2024-11-03T06:00:00'), { timeZone });
+      expect(run?.local).toMatchObject({ day: 4, hour: 1, minute: 30 });
+    });
+
+    it('should find the second pass when starting in the first', () => {
+      const run = nextRun('15 1 * * *', utc('2024-11-03T05:30:00'), { timeZone, repeatedTime: 'last' });
+      expect(run?.date).toEqual(utc('2024-11-03T06:15:00'));
+    });
+
+    it('should find the first pass when searching back from the second', () => {
+      const run = prevRun('45 1 * * *', utc('2024-11-03T06:30:00'), { timeZone });
+      expect(run?.date).toEqual(utc('2024-11-03T05:45:00'));
+    });
+
+    it('should find repeated times with prevRun', () => {
+      expect(prevRun('30 1 * * *', utc('2024-11-03T07:00:00'), { timeZone })?.date).toEqual(
+        utc('2024-11-03T05:30:00')
+      );
+      expect(prevRun('30 1 * * *', utc('2024-11-03T07:00:00'), { timeZone, repeatedTime: 'last' })?.date).toEqual(
+        utc('2024-11-03T06:30:00')
+      );
+    });
+  });
+});
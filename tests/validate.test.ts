@@ -0,0 +1,147 @@
+import { describe, it, expect } from 'vitest';
+import isCron, { validateCron } from '../src/index.js';
+
+describe('validateCron', () => {
+  describe('valid expressions', () => {
+    it('should report no errors for valid expressions', () => {
+      expect(validateCron('* * * * *')).toEqual({ valid: true, errors: [] });
+      expect(validateCron('0 9-17 * JAN-MAR MON-FRI')).toEqual({ valid: true, errors: [] });
+      expect(validateCron('*/5 * * * * *', { seconds: true })).toEqual({ valid: true, errors: [] });
+    });
+  });
+
+  describe('expression-level errors', () => {
+    it('should reject non-string values', () => {
+      const result = validateCron(42);
+      expect(result.valid).toBe(false);
+      expect(result.errors[0]?.code).toBe('INVALID_TYPE');
+    });
+
+    it('should reject empty strings', () => {
+      expect(validateCron('   ').errors[0]?.code).toBe('EMPTY_EXPRESSION');
+    });
+
+    it('should report the wrong field count', () => {
+      const result = validateCron('  * * * * * *');
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors[0]).toMatchObject({ code: 'FIELD_COUNT', start: 2, end: 13 });
+      expect(result.errors[0]?.field).toBeUndefined();
+      expect(result.errors[0]?.message).toContain('seconds');
+    });
+
+    it('should report the wrong field count in seconds mode', () => {
+      expect(validateCron('* * * * *', { seconds: true }).errors[0]?.code).toBe('FIELD_COUNT');
+    });
+  });
+
+  describe('field diagnostics', () => {
+    it('should report the field, token and offsets of an out-of-range value', () => {
+      const result = validateCron('0 25 * * *');
+      expect(result.valid).toBe(false);
+      expect(result.errors).toEqual([
+        {
+          code: 'OUT_OF_RANGE',
+          message: 'Value 25 is out of range for hour (0-23)',
+          field: 'hour',
+          token: '25',
+          start: 2,
+          end: 4,
+        },
+      ]);
+    });
+
+    it('should point at the offending item within a comma list', () => {
+      const result = validateCron('1,2,60,3 * * * *');
+      expect(result.errors[0]).toMatchObject({ field: 'minute', token: '60', start: 4, end: 6 });
+    });
+
+    it('should name the seconds field in 6-field mode', () => {
+      const result = validateCron('61 * * * * *', { seconds: true });
+      expect(result.errors[0]).toMatchObject({ code: 'OUT_OF_RANGE', field: 'second', start: 0, end: 2 });
+    });
+
+    it('should report reversed ranges', () => {
+      expect(validateCron('30-15 * * * *').errors[0]).toMatchObject({ code: 'REVERSED_RANGE', token: '30-15' });
+      expect(validateCron('* * * * 4-3').errors[0]).toMatchObject({ code: 'REVERSED_RANGE', field: 'dayOfWeek' });
+    });
+
+    it('should point reversed ranges at the wrapRanges option', () => {
+      expect(validateCron('0 0 * * 5-1').errors[0]).toMatchObject({
+        code: 'REVERSED_RANGE',
+        message: 'Range 5-1 in day of week ends before it starts (enable wrapRanges to wrap around)',
+        token: '5-1',
+      });
+      expect(validateCron('0 22-2/2 * * *').errors[0]?.message).toBe(
+        'Range 22-2 in hour ends before it starts (enable wrapRanges to wrap around)'
+      );
+      expect(validateCron('0 22-2 * * FRI-MON', { wrapRanges: true }).valid).toBe(true);
+    });
+
+    it('should accept reversed name ranges without wrapRanges', () => {
+      expect(validateCron('0 0 * * FRI-MON').valid).toBe(true);
+      expect(validateCron('0 0 * JUN-JAN *').valid).toBe(true);
+      expect(validateCron('0 0 * * 5-MON').errors[0]).toMatchObject({ code: 'REVERSED_RANGE', token: '5-MON' });
+    });
+
+    it('should never wrap years', () => {
+      expect(validateCron('0 0 0 1 1 ? 2030-2025', { dialect: 'quartz', wrapRanges: true }).errors[0]).toMatchObject({
+        code: 'REVERSED_RANGE',
+        message: 'Range 2030-2025 in year ends before it starts',
+      });
+    });
+
+    it('should report bad steps', () => {
+      expect(validateCron('*/0 * * * *').errors[0]?.code).toBe('INVALID_STEP');
+      expect(validateCron('*/-1 * * * *').errors[0]?.code).toBe('INVALID_STEP');
+      expect(validateCron('*/60 * * * *').errors[0]?.code).toBe('INVALID_STEP');
+      expect(validateCron('* * * */jan *').errors[0]?.code).toBe('INVALID_STEP');
+    });
+
+    it('should report unknown aliases', () => {
+      expect(validateCron('* * * JANUARY *').errors[0]).toMatchObject({ code: 'UNKNOWN_ALIAS', field: 'month' });
+      expect(validateCron('* * * * MON-FUN').errors[0]).toMatchObject({ code: 'UNKNOWN_ALIAS', token: 'MON-FUN' });
+      expect(validateCron('* * * JAN *', { alias: false }).errors[0]?.code).toBe('UNKNOWN_ALIAS');
+      expect(validateCron('* * * * 1-FUN').errors[0]).toMatchObject({ code: 'UNKNOWN_ALIAS', token: '1-FUN' });
+      expect(validateCron('* * * * MON-FRI/2', { alias: false }).errors[0]?.code).toBe('UNKNOWN_ALIAS');
+    });
+
+    it('should report syntax errors', () => {
+      expect(validateCron('? * * * *').errors[0]).toMatchObject({ code: 'SYNTAX', field: 'minute' });
+      expect(validateCron('1-2-3 * * * *').errors[0]?.code).toBe('SYNTAX');
+      expect(validateCron('1, * * * *').errors[0]).toMatchObject({ code: 'SYNTAX', token: '', start: 2, end: 2 });
+      expect(validateCron('a * * * *').errors[0]?.code).toBe('SYNTAX');
+    });
+
+    it('should collect errors from every field', () => {
+      const result = validateCron('60 24 32 13 8');
+      expect(result.errors.map((error) => error.field)).toEqual([
+        'minute',
+        'hour',
+        'dayOfMonth',
+        'month',
+        'dayOfWeek',
+      ]);
+    });
+  });
+
+  describe('consistency with isCron', () => {
+    it('should agree with isCron', () => {
+      const samples = [
+        '* * * * *',
+        '0 0 1 JAN *',
+        '60 * * * *',
+        '* * * * 1-7',
+        '0-30/5 * * * *',
+        '1/0 * * * *',
+        '* * * * sunday',
+        '00 00 01 01 00',
+        '+1 * * * *',
+        '* * ? * ?',
+      ];
+      for (const sample of samples) {
+        expect(validateCron(sample).valid).toBe(isCron(sample));
+        expect(validateCron(sample, { alias: false }).valid).toBe(isCron(sample, { alias: false }));
+      }
+    });
+  });
+});
@@ -1,9 +1,24 @@
 import { defineConfig } from 'tsup';
 
 export default defineConfig({
-  entry: ['src/index.ts'],
+  entry: {
+    index: 'src/index.ts',
+    bin: 'src/bin.ts',
+    zod: 'src/schemas/zod.ts',
+    valibot: 'src/schemas/valibot.ts',
+    yup: 'src/schemas/yup.ts',
+    'json-schema': 'src/schemas/json-schema.ts',
+  },
   format: ['cjs', 'esm'],
-  dts: true,
+  dts: {
+    entry: {
+      index: 'src/index.ts',
+      zod: 'src/schemas/zod.ts',
+      valibot: 'src/schemas/valibot.ts',
+      yup: 'src/schemas/yup.ts',
+      'json-schema': 'src/schemas/json-schema.ts',
+    },
+  },
   clean: true,
   splitting: false,
   sourcemap: true,